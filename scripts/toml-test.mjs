@@ -0,0 +1,109 @@
+// Runs the decoder and encoder against the fixtures of toml-test, the language-agnostic test suite of TOML, the same
+// way the `toml to-json --tagged` and `toml from-json --tagged` adapters do. The fixtures in `test/toml-test`, written
+// in the format of the suite, are used by default, a checkout of the whole suite may be given instead:
+//
+//   npm run build && node scripts/toml-test.mjs [path/to/toml-test] [--toml-version 1.1]
+//
+// https://github.com/toml-lang/toml-test
+import { readdir, readFile } from 'node:fs/promises';
+import { join, relative } from 'node:path';
+import { parseArgs } from 'node:util';
+
+import { decode, encode, fromTaggedJSON, toTaggedJSON, TOMLError } from '../dist/index.js';
+import { decodeUTF8 } from '../dist/utils.js';
+
+const { values: flags, positionals } = parseArgs({
+  allowPositionals: true,
+  options: { 'toml-version': { type: 'string', default: '1.0' } },
+});
+
+const root = join(positionals[0] ?? 'test/toml-test', 'tests');
+const version = flags['toml-version'];
+const options = { version, offsetDateTimes: 'offset-date-time' };
+
+const walk = async (directory) => {
+  const entries = await readdir(join(root, directory), { withFileTypes: true });
+  const files = await Promise.all(
+    entries.map((entry) => {
+      const path = join(directory, entry.name);
+
+      return entry.isDirectory() ? walk(path) : [path];
+    }),
+  );
+
+  return files.flat();
+};
+
+// Recent versions of toml-test list the fixtures applying to each version of TOML, older ones hold 1.0 fixtures only.
+const listFixtures = async () => {
+  try {
+    const list = await readFile(join(root, `files-toml-${version}.0`), 'utf-8');
+
+    return list.split('\n').filter((file) => file.endsWith('.toml'));
+  } catch {
+    return [...(await walk('valid')), ...(await walk('invalid'))].filter((file) => file.endsWith('.toml'));
+  }
+};
+
+// Values are compared the way toml-test does, i.e. by type and by value rather than by representation, e.g. `1e3`
+// equals `1000.0` and `nan` equals `nan`. Reading the tagged values back and writing them again normalizes them.
+const normalize = (tagged) => {
+  return JSON.stringify(toTaggedJSON(fromTaggedJSON(tagged, options)));
+};
+
+const decodeFixture = async (file) => {
+  return decode(decodeUTF8(await readFile(join(root, file))), options);
+};
+
+const testValid = async (file) => {
+  const expected = normalize(JSON.parse(await readFile(join(root, file.replace(/\.toml$/, '.json')), 'utf-8')));
+
+  if (normalize(toTaggedJSON(await decodeFixture(file))) !== expected) {
+    return 'decoded to a different value';
+  }
+
+  // The encoder is tested by decoding what it encodes from the expected value.
+  if (normalize(toTaggedJSON(decode(encode(fromTaggedJSON(JSON.parse(expected), options)), options))) !== expected) {
+    return 'encoded to a document of a different value';
+  }
+
+  return null;
+};
+
+const testInvalid = async (file) => {
+  try {
+    await decodeFixture(file);
+  } catch (err) {
+    if (err instanceof TOMLError) {
+      return null;
+    }
+
+    throw err;
+  }
+
+  return 'decoded without error';
+};
+
+const fixtures = await listFixtures();
+const failures = [];
+
+for (const file of fixtures) {
+  let failure;
+
+  try {
+    failure = file.startsWith('valid') ? await testValid(file) : await testInvalid(file);
+  } catch (err) {
+    failure = err instanceof Error ? err.message.split('\n')[0] : String(err);
+  }
+
+  if (failure) {
+    failures.push(`${relative('.', join(root, file))}: ${failure}`);
+  }
+}
+
+for (const failure of failures) {
+  process.stderr.write(`${failure}\n`);
+}
+
+process.stdout.write(`toml-test ${version}: ${fixtures.length - failures.length} passed, ${failures.length} failed\n`);
+process.exitCode = failures.length ? 1 : 0;
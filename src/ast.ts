@@ -1,11 +1,36 @@
-import { LocalDate, LocalDateTime, LocalTime } from './types.js';
+import { LocalDate, LocalDateTime, LocalTime, OffsetDateTime } from './types.js';
 
-export interface RootTableNode {
+export interface Position {
+  offset: number;
+  line: number;
+  column: number;
+}
+
+export interface Range {
+  start: Position;
+  end: Position;
+}
+
+// Whitespace, newlines and comments. Trivia is only attached to nodes when parsing in CST mode, with the `leading`
+// trivia of a node preceding it and the `trailing` trivia following it. Key/value pairs and table headers own the rest
+// of their line, including the newline; the trivia before a closing bracket is held in `closing`.
+export interface TriviaNode extends Range {
+  type: 'WHITESPACE' | 'NEWLINE' | 'COMMENT';
+  value: string;
+}
+
+export interface Trivia {
+  leading?: TriviaNode[];
+  trailing?: TriviaNode[];
+}
+
+export interface RootTableNode extends Range {
   type: 'ROOT_TABLE';
   elements: (KeyValuePairNode | TableNode | ArrayTableNode)[];
+  closing?: TriviaNode[];
 }
 
-export interface KeyNode {
+export interface KeyNode extends Range {
   type: 'KEY';
   keys: (BareNode | StringNode)[];
 }
@@ -22,77 +47,89 @@ export type ValueNode =
   | ArrayNode
   | InlineTableNode;
 
-export interface KeyValuePairNode {
+export interface KeyValuePairNode extends Range, Trivia {
   type: 'KEY_VALUE_PAIR';
   key: KeyNode;
   value: ValueNode;
 }
 
-export interface TableNode {
+export interface TableNode extends Range, Trivia {
   type: 'TABLE';
   key: KeyNode;
   elements: KeyValuePairNode[];
 }
 
-export interface ArrayTableNode {
+export interface ArrayTableNode extends Range, Trivia {
   type: 'ARRAY_TABLE';
   key: KeyNode;
   elements: KeyValuePairNode[];
 }
 
-export interface InlineTableNode {
+export interface InlineTableNode extends Range, Trivia {
   type: 'INLINE_TABLE';
   elements: KeyValuePairNode[];
+  closing?: TriviaNode[];
+  hasTrailingComma?: boolean;
 }
 
-export interface ArrayNode {
+export interface ArrayNode extends Range, Trivia {
   type: 'ARRAY';
   elements: ValueNode[];
+  closing?: TriviaNode[];
+  hasTrailingComma?: boolean;
 }
 
-export interface BareNode {
+export interface BareNode extends Range, Trivia {
   type: 'BARE';
   value: string;
 }
 
-export interface StringNode {
+export interface StringNode extends Range, Trivia {
   type: 'STRING';
   value: string;
+  raw?: string;
 }
 
-export interface IntegerNode {
+export interface IntegerNode extends Range, Trivia {
   type: 'INTEGER';
   value: bigint;
+  raw?: string;
 }
 
-export interface FloatNode {
+export interface FloatNode extends Range, Trivia {
   type: 'FLOAT';
   value: number;
+  raw?: string;
 }
 
-export interface BooleanNode {
+export interface BooleanNode extends Range, Trivia {
   type: 'BOOLEAN';
   value: boolean;
+  raw?: string;
 }
 
-export interface OffsetDateTimeNode {
+export interface OffsetDateTimeNode extends Range, Trivia {
   type: 'OFFSET_DATE_TIME';
-  value: Date;
+  value: OffsetDateTime;
+  raw?: string;
 }
 
-export interface LocalDateTimeNode {
+export interface LocalDateTimeNode extends Range, Trivia {
   type: 'LOCAL_DATE_TIME';
   value: LocalDateTime;
+  raw?: string;
 }
 
-export interface LocalDateNode {
+export interface LocalDateNode extends Range, Trivia {
   type: 'LOCAL_DATE';
   value: LocalDate;
+  raw?: string;
 }
 
-export interface LocalTimeNode {
+export interface LocalTimeNode extends Range, Trivia {
   type: 'LOCAL_TIME';
   value: LocalTime;
+  raw?: string;
 }
 
 export type Node =
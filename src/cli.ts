@@ -0,0 +1,342 @@
+#!/usr/bin/env node
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+
+import { decode, type DecodeOptions, decodeWithDiagnostics, parseKey, type TOMLVersion } from './decoder.js';
+import { encode, encodeValue } from './encoder.js';
+import { TOMLError, TOMLValidationError } from './errors.js';
+import { format } from './formatter.js';
+import { fromTaggedJSON, toJSON, toTaggedJSON } from './json.js';
+import { decodeWithJSONSchema, type JSONSchema } from './json-schema.js';
+import { LanguageServer } from './language-server.js';
+import type { Value } from './normalizer.js';
+import { decodeUTF8, withFile } from './utils.js';
+import { isTable } from './values.js';
+
+const USAGE = `Usage: toml <command> [options]
+
+Commands:
+  get [file] <key>      Print the value at a dotted key, e.g. servers.alpha.ip or products.0.name
+  to-json [file]        Convert a TOML document to JSON
+  from-json [file]      Convert a JSON document to TOML
+  validate [file]       Check that a document is valid TOML, reporting every error
+  fmt [file]            Format a TOML document
+  lsp                   Start a language server on the standard input and output
+
+Options:
+  --toml-version <v>    The version of TOML to follow, 1.0 (default) or 1.1
+  --json                get: print the value as JSON
+  --tagged              to-json, from-json: use the type-tagged JSON encoding of toml-test
+  --schema <file>       validate: check the document against a JSON Schema too
+  -w, --write           fmt: overwrite the file instead of printing the result
+  --check               fmt: fail if the document isn't formatted
+  --stdio               lsp: accepted for compatibility with editors, the standard input and output being the default
+  -h, --help            Print this message
+
+Documents are read from the standard input if the file is omitted or "-".
+`;
+
+class UsageError extends Error {}
+
+interface Input {
+  text: string;
+  // The name of the file, absent for the standard input.
+  file?: string;
+}
+
+const readStdin = async () => {
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks);
+};
+
+const readInput = async (file: string | undefined): Promise<Input> => {
+  if (typeof file === 'undefined' || file === '-') {
+    return { text: decodeUTF8(await readStdin()) };
+  }
+
+  const buffer = await readFile(file);
+
+  return { text: withFile(file, () => decodeUTF8(buffer)), file };
+};
+
+// Attaches the name of the file, unless read from the standard input, to the errors raised.
+const withInput = <T>(input: Input, callback: () => T): T => {
+  return input.file ? withFile(input.file, callback) : callback();
+};
+
+const decodeInput = (input: Input, options: DecodeOptions) => {
+  return withInput(input, () => decode(input.text, options as DecodeOptions<'bigint'>));
+};
+
+// JSON has no counterpart for integers beyond `Number.MAX_SAFE_INTEGER` and non-finite floats, which are written as
+// strings. Date-times, dates and times are written in their TOML representation, unless tagged.
+const stringifyJSON = (value: Value, isTagged: boolean) => {
+  const json = isTagged && isTable(value) ? toTaggedJSON(value) : toJSON(value);
+
+  return `${JSON.stringify(json, null, 2)}\n`;
+};
+
+// The strings and numbers of a JSON document, along with the colon following keys.
+const JSON_TOKEN = /"(?:[^"\\]|\\.)*"(\s*:)?|-?\d+(\.\d+)?([eE][+-]?\d+)?/g;
+
+// Numbers written without a fraction or an exponent are read as integers, the others as floats, e.g. `1.0`. As
+// `JSON.parse` only gives the value of numbers, integers are turned into strings beforehand, strings being marked apart,
+// so that integers beyond `Number.MAX_SAFE_INTEGER` are read from their spelling.
+const parseJSONWithIntegers = (text: string): unknown => {
+  const marked = text.replace(JSON_TOKEN, (token, colon?: string, fraction?: string, exponent?: string) => {
+    if (token.startsWith('"')) {
+      return colon ? token : `"s${token.slice(1)}`;
+    }
+
+    return fraction || exponent ? token : `"i${token}"`;
+  });
+
+  return JSON.parse(marked, (_key, value: unknown) => {
+    if (typeof value !== 'string') {
+      return value;
+    }
+
+    return value.startsWith('i') ? BigInt(value.slice(1)) : value.slice(1);
+  });
+};
+
+const parseJSON = (text: string, isTagged: boolean): Record<string, Value> => {
+  let value: unknown;
+
+  // The document is parsed as is first, so that errors point at the input.
+  try {
+    value = JSON.parse(text);
+  } catch (err) {
+    throw new TOMLError(`invalid JSON: ${(err as Error).message}`, { code: 'UNSUPPORTED_VALUE' });
+  }
+
+  if (isTagged) {
+    return fromTaggedJSON(value, { offsetDateTimes: 'offset-date-time' });
+  }
+
+  if (!isTable(value as Value)) {
+    throw new TOMLError('the root value must be an object', { code: 'UNSUPPORTED_VALUE' });
+  }
+
+  return parseJSONWithIntegers(text) as Record<string, Value>;
+};
+
+// Errors reading the schema name its file, as those of documents do.
+const readJSONSchema = async (file: string) => {
+  try {
+    return JSON.parse(await readFile(file, 'utf-8')) as JSONSchema;
+  } catch (err) {
+    throw new TOMLError(`invalid JSON Schema: ${(err as Error).message}`, { code: 'UNSUPPORTED_VALUE', file });
+  }
+};
+
+const getValue = (root: Value, keys: string[]) => {
+  let value: Value | undefined = root;
+
+  for (const key of keys) {
+    if (Array.isArray(value) && /^\d+$/.test(key)) {
+      value = value[parseInt(key, 10)];
+    } else if (isTable(value) && Object.prototype.hasOwnProperty.call(value, key)) {
+      value = value[key];
+    } else {
+      return undefined;
+    }
+  }
+
+  return value;
+};
+
+const formatValue = (value: Value, isJSON: boolean) => {
+  if (isJSON) {
+    return stringifyJSON(value, false);
+  }
+
+  // Strings are printed as is, for the sake of scripts.
+  if (typeof value === 'string') {
+    return `${value}\n`;
+  }
+
+  return isTable(value) ? encode(value) : `${encodeValue(value)}\n`;
+};
+
+const parseCommandLine = (args: string[]) => {
+  try {
+    return parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        'toml-version': { type: 'string' },
+        'json': { type: 'boolean' },
+        'tagged': { type: 'boolean' },
+        'schema': { type: 'string' },
+        'write': { type: 'boolean', short: 'w' },
+        'check': { type: 'boolean' },
+        'stdio': { type: 'boolean' },
+        'help': { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (err) {
+    throw new UsageError((err as Error).message);
+  }
+};
+
+const run = async (args: string[]): Promise<number> => {
+  const { values: flags, positionals } = parseCommandLine(args);
+
+  const [command, ...operands] = positionals;
+
+  if (flags.help) {
+    process.stdout.write(USAGE);
+
+    return 0;
+  }
+
+  const version = flags['toml-version'];
+
+  if (typeof version !== 'undefined' && version !== '1.0' && version !== '1.1') {
+    throw new UsageError(`unsupported TOML version "${version}"`);
+  }
+
+  const options: DecodeOptions = { version: version as TOMLVersion | undefined };
+
+  switch (command) {
+    case 'get': {
+      if (operands.length < 1 || operands.length > 2) {
+        throw new UsageError('expected a key, optionally preceded by a file');
+      }
+
+      const key = operands[operands.length - 1];
+      const keys = parseKey(key).keys.map((component) => component.value);
+      const input = await readInput(operands.length === 2 ? operands[0] : undefined);
+      const value = getValue(decodeInput(input, options), keys);
+
+      if (typeof value === 'undefined') {
+        process.stderr.write(`toml: key ${key} not found\n`);
+
+        return 1;
+      }
+
+      process.stdout.write(formatValue(value, Boolean(flags.json)));
+
+      return 0;
+    }
+    case 'to-json': {
+      const input = await readInput(operands[0]);
+      const isTagged = Boolean(flags.tagged);
+
+      // Tagged offset date-times keep their offset, which dates would lose.
+      const value = decodeInput(input, isTagged ? { ...options, offsetDateTimes: 'offset-date-time' } : options);
+
+      process.stdout.write(stringifyJSON(value, isTagged));
+
+      return 0;
+    }
+    case 'from-json': {
+      const input = await readInput(operands[0]);
+
+      process.stdout.write(encode(parseJSON(input.text, Boolean(flags.tagged))));
+
+      return 0;
+    }
+    case 'validate': {
+      const input = await readInput(operands[0]);
+
+      // Every error is reported at once, rather than only the first one.
+      const { diagnostics } = decodeWithDiagnostics(input.text, options as DecodeOptions<'bigint'>);
+
+      if (diagnostics.length) {
+        const messages = diagnostics.map(({ reason, code, position, frame }) => {
+          return new TOMLError(reason, { code, position, frame, file: input.file }).message;
+        });
+
+        process.stderr.write(`${messages.join('\n\n')}\n`);
+
+        return 1;
+      }
+
+      if (!flags.schema) {
+        return 0;
+      }
+
+      const schema = await readJSONSchema(flags.schema);
+
+      try {
+        withInput(input, () => decodeWithJSONSchema(input.text, schema, options));
+      } catch (err) {
+        // Issues are reported one per line, prefixed with the file name as errors are.
+        if (err instanceof TOMLValidationError && input.file) {
+          process.stderr.write(`${err.message.replace(/^/gm, `${input.file}: `)}\n`);
+
+          return 1;
+        }
+
+        throw err;
+      }
+
+      return 0;
+    }
+    case 'fmt': {
+      if (flags.write && (typeof operands[0] === 'undefined' || operands[0] === '-')) {
+        throw new UsageError('--write requires a file');
+      }
+
+      const input = await readInput(operands[0]);
+
+      const output = withInput(input, () => format(input.text, options));
+
+      if (flags.check) {
+        if (output === input.text) {
+          return 0;
+        }
+
+        process.stderr.write(`toml: ${input.file ?? 'the standard input'} is not formatted\n`);
+
+        return 1;
+      }
+
+      if (flags.write) {
+        await writeFile(input.file as string, output, 'utf-8');
+
+        return 0;
+      }
+
+      process.stdout.write(output);
+
+      return 0;
+    }
+    case 'lsp': {
+      // The server runs until the client asks it to exit, or closes the standard input.
+      new LanguageServer(process.stdin, process.stdout, {
+        version: options.version,
+        onExit: (code) => process.exit(code),
+      });
+
+      return 0;
+    }
+    default:
+      throw new UsageError(command ? `unknown command "${command}"` : 'expected a command');
+  }
+};
+
+run(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err: unknown) => {
+    if (err instanceof UsageError) {
+      process.stderr.write(`toml: ${err.message}\n\n${USAGE}`);
+      process.exitCode = 2;
+    } else if (err instanceof TOMLError || err instanceof TOMLValidationError) {
+      process.stderr.write(`${err.message}\n`);
+      process.exitCode = 1;
+    } else {
+      process.stderr.write(`toml: ${err instanceof Error ? err.message : String(err)}\n`);
+      process.exitCode = 1;
+    }
+  },
+);
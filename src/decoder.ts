@@ -1,9 +1,138 @@
-import { Parser } from './parser.js';
-import { normalize, type Value } from './normalizer.js';
+import { Parser, type ParseOptions } from './parser.js';
+import { TOMLError } from './errors.js';
+import { type IntegerMode, normalize, type NormalizeOptions, type Value } from './normalizer.js';
+import type { KeyNode, KeyValuePairNode, Position, RootTableNode, ValueNode } from './ast.js';
+import type { TOMLVersion } from './tokenizer.js';
+import { withCodeFrame } from './utils.js';
 
-export const decode = <T extends Record<string, Value>>(input: string): T => {
-  const parser = new Parser(input);
-  const node = parser.parse();
+export type { ParseOptions, TOMLVersion };
 
-  return normalize(node) as T;
+export interface DecodeOptions<M extends IntegerMode = IntegerMode> extends NormalizeOptions<M> {
+  // The version of the specification to follow, 1.0 by default.
+  version?: TOMLVersion;
+}
+
+export const parse = (input: string, options?: ParseOptions): RootTableNode => {
+  const parser = new Parser(input, options);
+
+  return parser.parse();
+};
+
+export interface ParseResult {
+  node: RootTableNode;
+  // The errors found, in the order of the document.
+  diagnostics: TOMLError[];
+}
+
+export interface DecodeResult<T> {
+  value: T;
+  // The errors found, in the order of the document.
+  diagnostics: TOMLError[];
+}
+
+// Parses a document like `parse`, but reports every error instead of throwing the first one. The tree holds the
+// expressions that are valid, so that as much of the document as possible can be used.
+export const parseWithDiagnostics = (input: string, options?: ParseOptions): ParseResult => {
+  const parser = new Parser(input, options);
+
+  const { node, errors } = parser.parseWithRecovery();
+
+  return { node, diagnostics: errors };
+};
+
+// Parses a dotted key, e.g. `servers."alpha.example.com".port`, following the same rules as keys within a document.
+export const parseKey = (input: string, options?: ParseOptions): KeyNode => {
+  const parser = new Parser(input, options);
+
+  return withCodeFrame(input, () => parser.parseKey());
+};
+
+// Parses a value, e.g. `[8080, 8081]` or `1979-05-27`, following the same rules as values within a document.
+export const parseValue = (input: string, options?: ParseOptions): ValueNode => {
+  const parser = new Parser(input, options);
+
+  return withCodeFrame(input, () => parser.parseValue());
+};
+
+// Removes the key/value pair holding a position, at the root or within a table, e.g. one whose value can't be
+// normalized. Returns `undefined` if there is none.
+const removeKeyValuePairAt = (node: RootTableNode, position: Position): RootTableNode | undefined => {
+  let isRemoved = false;
+
+  const isKept = (element: KeyValuePairNode) => {
+    const isHolding = element.start.offset <= position.offset && position.offset < element.end.offset;
+
+    isRemoved ||= isHolding;
+
+    return !isHolding;
+  };
+
+  const elements = node.elements.flatMap<RootTableNode['elements'][number]>((element) => {
+    if (element.type === 'KEY_VALUE_PAIR') {
+      return isKept(element) ? [element] : [];
+    }
+
+    return [{ ...element, elements: element.elements.filter(isKept) }];
+  });
+
+  return isRemoved ? { ...node, elements } : undefined;
 };
+
+const sortDiagnostics = (diagnostics: TOMLError[]) => {
+  return diagnostics.sort((a, b) => (a.position?.offset ?? Infinity) - (b.position?.offset ?? Infinity));
+};
+
+// The type of the decoded integers follows the `integers` option. Any type is allowed for the result, as the reviver and
+// hooks may decode values to other types.
+export function decode<T extends Record<string, unknown> = Record<string, Value<number>>>(
+  input: string,
+  options: DecodeOptions<'number' | 'safe'> & { integers: 'number' | 'safe' },
+): T;
+export function decode<T extends Record<string, unknown> = Record<string, Value>>(
+  input: string,
+  options?: DecodeOptions<'bigint'>,
+): T;
+export function decode(input: string, options: DecodeOptions = {}) {
+  const node = parse(input, { version: options.version });
+
+  return withCodeFrame(input, () => normalize(node, options));
+}
+
+// Decodes a document like `decode`, but reports every error instead of throwing the first one. The value holds the
+// keys that are valid. The key/value pairs raising errors while normalizing, e.g. for integers beyond the safe range,
+// are left out. Errors raised elsewhere, e.g. by hooks throwing errors without a position, leave it empty.
+export function decodeWithDiagnostics<T extends Record<string, unknown> = Record<string, Value<number>>>(
+  input: string,
+  options: DecodeOptions<'number' | 'safe'> & { integers: 'number' | 'safe' },
+): DecodeResult<T>;
+export function decodeWithDiagnostics<T extends Record<string, unknown> = Record<string, Value>>(
+  input: string,
+  options?: DecodeOptions<'bigint'>,
+): DecodeResult<T>;
+export function decodeWithDiagnostics(input: string, options: DecodeOptions = {}): DecodeResult<unknown> {
+  const { node, diagnostics } = parseWithDiagnostics(input, { version: options.version });
+
+  let root = node;
+
+  for (;;) {
+    try {
+      const value = withCodeFrame(input, () => normalize(root, options));
+
+      return { value, diagnostics: sortDiagnostics(diagnostics) };
+    } catch (err) {
+      if (!(err instanceof TOMLError)) {
+        throw err;
+      }
+
+      diagnostics.push(err);
+
+      const nextRoot = err.position && removeKeyValuePairAt(root, err.position);
+
+      if (!nextRoot) {
+        return { value: {}, diagnostics: sortDiagnostics(diagnostics) };
+      }
+
+      root = nextRoot;
+    }
+  }
+}
@@ -0,0 +1,495 @@
+import type { ArrayNode, InlineTableNode, Node, Position, RootTableNode, TableNode } from './ast.js';
+import { type DecodeOptions, parse } from './decoder.js';
+import { encode, type EncodableValue, encodeValue } from './encoder.js';
+import { TOMLError } from './errors.js';
+import { normalize, type Value } from './normalizer.js';
+import {
+  type Definition,
+  findDefinition,
+  formatKeyPath,
+  isSamePath,
+  type KeyPath,
+  resolve,
+  type SectionNode,
+  startsWithPath,
+} from './resolver.js';
+import { withCodeFrame } from './utils.js';
+import { isTable } from './values.js';
+
+export type { KeyPath };
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const getLineStart = (position: Position) => {
+  return position.offset - position.column + 1;
+};
+
+const getNextLineStart = (input: string, offset: number) => {
+  const index = input.indexOf('\n', offset);
+
+  return index === -1 ? input.length : index + 1;
+};
+
+const getIndentation = (input: string, position: Position) => {
+  const lineStart = getLineStart(position);
+
+  return input.slice(lineStart, position.offset).replace(/[^ \t]/g, '');
+};
+
+// Comments directly above a table header are considered to describe it, hence the block they form is kept together
+// with the header.
+const getCommentBlockStart = (input: string, lineStart: number) => {
+  let start = lineStart;
+
+  while (start > 0) {
+    const previousLineStart = input.lastIndexOf('\n', start - 2) + 1;
+
+    if (!input.slice(previousLineStart, start).trim().startsWith('#')) {
+      break;
+    }
+
+    start = previousLineStart;
+  }
+
+  return start;
+};
+
+const isBlankLine = (input: string, start: number, end: number) => {
+  return !input.slice(start, end).trim();
+};
+
+// A table section spans its header, including the comments attached to it, up to the next section, swallowing the
+// blank lines separating the two.
+const getSectionRange = (input: string, node: Node): [number, number] => {
+  let start = getCommentBlockStart(input, getLineStart(node.start));
+  let end = getNextLineStart(input, node.end.offset);
+
+  while (end < input.length && isBlankLine(input, end, getNextLineStart(input, end))) {
+    end = getNextLineStart(input, end);
+  }
+
+  // The last section takes the blank lines preceding it instead, so that no trailing blank lines are left behind.
+  while (end === input.length && start > 0) {
+    const previousLineStart = input.lastIndexOf('\n', start - 2) + 1;
+
+    if (!isBlankLine(input, previousLineStart, start)) {
+      break;
+    }
+
+    start = previousLineStart;
+  }
+
+  return [start, end];
+};
+
+// Finds the comma following an offset within an inline table or array, skipping whitespace, newlines and comments.
+const findComma = (input: string, offset: number) => {
+  const pattern = /(?:[ \t\r\n]|#[^\n]*)*/y;
+
+  pattern.lastIndex = offset;
+  pattern.exec(input);
+
+  return input[pattern.lastIndex] === ',' ? pattern.lastIndex : -1;
+};
+
+const isLineEnd = (input: string, offset: number) => {
+  const pattern = /[ \t]*(?:#[^\n]*)?(?:\r?\n|$)/y;
+
+  pattern.lastIndex = offset;
+
+  return pattern.test(input);
+};
+
+// Removes an element of an inline table or array along with one adjacent comma, the following one if any, else the one
+// following the closest element that is kept, leaving the other elements and comments as they are. An element on a
+// line of its own is removed together with the line.
+const removeElement = (input: string, elements: Node[], removed: Node[], element: Node): Edit[] => {
+  const lineStart = getLineStart(element.start);
+  const isOnOwnLine = isBlankLine(input, lineStart, element.start.offset);
+  const comma = findComma(input, element.end.offset);
+
+  if (comma !== -1) {
+    if (isOnOwnLine && isLineEnd(input, comma + 1)) {
+      return [{ start: lineStart, end: getNextLineStart(input, comma), text: '' }];
+    }
+
+    let end = comma + 1;
+
+    while (input[end] === ' ' || input[end] === '\t') {
+      end++;
+    }
+
+    return [{ start: element.start.offset, end, text: '' }];
+  }
+
+  const previous = elements
+    .slice(0, elements.indexOf(element))
+    .reverse()
+    .find((other) => !removed.includes(other));
+  const previousComma = previous ? findComma(input, previous.end.offset) : -1;
+
+  if (isOnOwnLine && isLineEnd(input, element.end.offset)) {
+    const edit = { start: lineStart, end: getNextLineStart(input, element.end.offset), text: '' };
+
+    return previousComma === -1 ? [edit] : [{ start: previousComma, end: previousComma + 1, text: '' }, edit];
+  }
+
+  return [{ start: previousComma === -1 ? element.start.offset : previousComma, end: element.end.offset, text: '' }];
+};
+
+const isSection = (node: Node): node is SectionNode => {
+  return node.type === 'ROOT_TABLE' || node.type === 'TABLE' || node.type === 'ARRAY_TABLE';
+};
+
+const contains = (outer: Node, inner: Node) => {
+  return outer.start.offset <= inner.start.offset && inner.end.offset <= outer.end.offset;
+};
+
+// Merges overlapping removals, e.g. of adjacent sections sharing the blank lines between them.
+const mergeEdits = (edits: Edit[]) => {
+  return [...edits]
+    .sort((a, b) => a.start - b.start)
+    .reduce<Edit[]>((acc, edit) => {
+      const previous = acc[acc.length - 1];
+
+      if (previous && !previous.text && !edit.text && edit.start <= previous.end) {
+        previous.end = Math.max(previous.end, edit.end);
+      } else {
+        acc.push({ ...edit });
+      }
+
+      return acc;
+    }, []);
+};
+
+const makeInvalidPathError = (reason: string) => {
+  return new TOMLError(reason, { code: 'INVALID_PATH' });
+};
+
+// An editable TOML document. Edits only touch the text of the affected keys and values, leaving comments, ordering and
+// formatting of the rest of the document intact.
+export class TOMLDocument {
+  private input: string;
+  private rootTableNode: RootTableNode;
+
+  constructor(input = '', private readonly options: DecodeOptions = {}) {
+    this.input = input;
+    this.rootTableNode = parse(input, { version: options.version });
+  }
+
+  get(path: KeyPath): Value | undefined {
+    let value: Value | undefined = withCodeFrame(this.input, () => {
+      return normalize(this.rootTableNode, this.options);
+    });
+
+    for (const component of path) {
+      if (!isTable(value) && !Array.isArray(value)) {
+        return undefined;
+      }
+
+      value = (value as Record<string | number, Value>)[component];
+    }
+
+    return value;
+  }
+
+  has(path: KeyPath) {
+    return typeof this.get(path) !== 'undefined';
+  }
+
+  set(path: KeyPath, value: EncodableValue): this {
+    if (!path.length) {
+      throw makeInvalidPathError('cannot set the root table');
+    }
+
+    const definition = findDefinition(resolve(this.rootTableNode), path);
+
+    if (definition?.value) {
+      const { start, end } = definition.value;
+
+      this.apply([{ start: start.offset, end: end.offset, text: encodeValue(value) }]);
+
+      return this;
+    }
+
+    if (definition?.node.type === 'ARRAY_TABLE') {
+      throw makeInvalidPathError(`cannot set ${formatKeyPath(path)}, it is defined as an array of tables`);
+    }
+
+    // Tables defined by headers are set to other tables by rewriting their body, where they are.
+    if (definition?.node.type === 'TABLE' && !definition.isImplicit && isTable(value as Value)) {
+      this.apply(this.replaceSection(path, definition.node, value as Record<string, EncodableValue>));
+
+      return this;
+    }
+
+    const { input, rootTableNode } = this;
+
+    try {
+      // Tables defined by headers and set to other values are replaced as a whole.
+      if (definition && !definition.isImplicit) {
+        this.delete(path);
+      }
+
+      this.apply([this.insert(path, value)]);
+    } catch (err) {
+      this.input = input;
+      this.rootTableNode = rootTableNode;
+
+      throw err;
+    }
+
+    return this;
+  }
+
+  delete(path: KeyPath): boolean {
+    const definitions = resolve(this.rootTableNode).filter((definition) => {
+      return !definition.isImplicit && startsWithPath(definition.path, path);
+    });
+
+    if (!definitions.length) {
+      return false;
+    }
+
+    this.apply(this.remove(definitions));
+
+    return true;
+  }
+
+  appendToArrayOfTables(path: KeyPath, table: Record<string, EncodableValue>): this {
+    const definitions = resolve(this.rootTableNode);
+
+    const header = path.filter((component): component is string => typeof component === 'string');
+    const elements = definitions.filter((definition) => {
+      return definition.node.type === 'ARRAY_TABLE' && definition.path.length === path.length + 1;
+    });
+
+    // Headers always refer to the most recent element of the arrays of tables they are nested in.
+    //
+    // https://toml.io/en/v1.0.0#array-of-tables
+    path.forEach((component, i) => {
+      if (typeof component !== 'number') {
+        return;
+      }
+
+      const count = definitions.filter((definition) => {
+        return definition.node.type === 'ARRAY_TABLE' && isSamePath(definition.path.slice(0, -1), path.slice(0, i));
+      }).length;
+
+      if (component !== count - 1) {
+        throw makeInvalidPathError(`${formatKeyPath(path)} is not nested in the last element of an array of tables`);
+      }
+    });
+
+    const existing = findDefinition(definitions, path);
+
+    if (existing && existing.node.type !== 'ARRAY_TABLE') {
+      throw makeInvalidPathError(`${formatKeyPath(path)} is not an array of tables`);
+    }
+
+    const siblings = elements.filter((definition) => startsWithPath(definition.path, path));
+    const parent = siblings.length ? siblings[siblings.length - 1].path : path.slice(0, -1);
+
+    const value = header.reduceRight<EncodableValue>((acc, key) => ({ [key]: acc }), [table]);
+
+    this.apply([this.append(parent.length ? parent : null, encode(value as Record<string, EncodableValue>))]);
+
+    return this;
+  }
+
+  toString() {
+    return this.input;
+  }
+
+  // Removes the definitions, along with those nested in them.
+  private remove(definitions: Definition[]): Edit[] {
+    const nodes: Definition['node'][] = [];
+    const edits: Edit[] = [];
+    const parents = new Map<InlineTableNode | ArrayNode, Node[]>();
+
+    for (const { node, parent } of definitions) {
+      if (nodes.some((other) => contains(other, node))) {
+        continue;
+      }
+
+      nodes.push(node);
+
+      if (parent.type === 'INLINE_TABLE' || parent.type === 'ARRAY') {
+        parents.set(parent, [...(parents.get(parent) ?? []), node]);
+      } else if (node.type === 'TABLE' || node.type === 'ARRAY_TABLE') {
+        const [start, end] = getSectionRange(this.input, node);
+
+        edits.push({ start, end, text: '' });
+      } else {
+        edits.push({ start: getLineStart(node.start), end: getNextLineStart(this.input, node.end.offset), text: '' });
+      }
+    }
+
+    for (const [parent, removed] of parents) {
+      const elements: Node[] = parent.elements;
+
+      // Emptied inline tables and arrays are left as `{}` and `[]`.
+      if (removed.length === elements.length) {
+        edits.push({ start: parent.start.offset + 1, end: parent.end.offset - 1, text: '' });
+      } else {
+        edits.push(...removed.flatMap((element) => removeElement(this.input, elements, removed, element)));
+      }
+    }
+
+    return mergeEdits(edits);
+  }
+
+  // Rewrites the key/value pairs of a table section, keeping its header, and removes the sections of its sub-tables.
+  private replaceSection(path: KeyPath, section: TableNode, table: Record<string, EncodableValue>): Edit[] {
+    const definitions = resolve(this.rootTableNode).filter((definition) => {
+      return !definition.isImplicit && startsWithPath(definition.path, path) && !contains(section, definition.node);
+    });
+
+    const { elements } = section;
+    const start = getNextLineStart(this.input, section.key.end.offset);
+    const end = elements.length ? getNextLineStart(this.input, elements[elements.length - 1].end.offset) : start;
+    const indentation = elements.length ? getIndentation(this.input, elements[0].start) : '';
+    const prefix = this.input[start - 1] === '\n' ? '' : '\n';
+
+    const pairs = Object.entries(table).map(([key, value]) => {
+      return `${indentation}${this.formatKey([key])} = ${encodeValue(value)}\n`;
+    });
+
+    return [...this.remove(definitions), { start, end, text: `${prefix}${pairs.join('')}` }];
+  }
+
+  // Applies the edits, which must not overlap, and reparses the result. The document is left untouched if the edits
+  // produce an invalid document.
+  private apply(edits: Edit[]) {
+    const input = [...edits]
+      .sort((a, b) => b.start - a.start)
+      .reduce((acc, edit) => `${acc.slice(0, edit.start)}${edit.text}${acc.slice(edit.end)}`, this.input);
+
+    this.rootTableNode = parse(input, { version: this.options.version });
+    this.input = input;
+  }
+
+  // Appends a block of text after all sections belonging to the given path, or to the end of the document.
+  private append(path: KeyPath | null, text: string): Edit {
+    let offset = this.input.length;
+
+    if (path) {
+      const sections = resolve(this.rootTableNode).filter((definition) => {
+        return isSection(definition.node) && startsWithPath(definition.path, path);
+      });
+
+      if (sections.length) {
+        const end = Math.max(...sections.map((definition) => definition.node.end.offset));
+
+        offset = getNextLineStart(this.input, end);
+      }
+    }
+
+    const prefix = offset === 0 ? '' : this.input[offset - 1] === '\n' ? '\n' : '\n\n';
+
+    return { start: offset, end: offset, text: `${prefix}${text}` };
+  }
+
+  private insert(path: KeyPath, value: EncodableValue): Edit {
+    const definitions = resolve(this.rootTableNode);
+
+    for (let i = path.length - 1; i >= 0; i--) {
+      const prefix = path.slice(0, i);
+      const rest = path.slice(i);
+
+      if (!i) {
+        return this.insertIntoSection(this.rootTableNode, rest, value);
+      }
+
+      const definition = findDefinition(definitions, prefix);
+
+      // Tables created implicitly are extended with dotted keys from the closest table that has been defined.
+      if (!definition || definition.isImplicit) {
+        continue;
+      }
+
+      switch (definition.value?.type) {
+        case 'INLINE_TABLE': {
+          const { elements, start, end } = definition.value;
+          const pair = `${this.formatKey(rest)} = ${encodeValue(value)}`;
+
+          if (!elements.length) {
+            return { start: start.offset, end: end.offset, text: `{ ${pair} }` };
+          }
+
+          const offset = elements[elements.length - 1].end.offset;
+
+          return { start: offset, end: offset, text: `, ${pair}` };
+        }
+        case 'ARRAY': {
+          const { elements, start, end } = definition.value;
+
+          if (rest.length !== 1 || rest[0] !== elements.length) {
+            break;
+          }
+
+          if (!elements.length) {
+            return { start: start.offset, end: end.offset, text: `[${encodeValue(value)}]` };
+          }
+
+          const offset = elements[elements.length - 1].end.offset;
+
+          return { start: offset, end: offset, text: `, ${encodeValue(value)}` };
+        }
+        case undefined:
+          if (definition.node.type === 'TABLE' || typeof prefix[prefix.length - 1] === 'number') {
+            return this.insertIntoSection(definition.node as SectionNode, rest, value);
+          }
+      }
+
+      throw makeInvalidPathError(`cannot set ${formatKeyPath(path)}, ${formatKeyPath(prefix)} is not a table`);
+    }
+
+    throw makeInvalidPathError('cannot set the root table');
+  }
+
+  private insertIntoSection(section: SectionNode, path: KeyPath, value: EncodableValue): Edit {
+    const pair = `${this.formatKey(path)} = ${encodeValue(value)}`;
+    const pairs = section.elements.filter((element) => element.type === 'KEY_VALUE_PAIR');
+
+    if (pairs.length) {
+      const last = pairs[pairs.length - 1];
+      const offset = getNextLineStart(this.input, last.end.offset);
+      const prefix = this.input[offset - 1] === '\n' ? '' : '\n';
+
+      return { start: offset, end: offset, text: `${prefix}${getIndentation(this.input, last.start)}${pair}\n` };
+    }
+
+    if (section.type !== 'ROOT_TABLE') {
+      const offset = getNextLineStart(this.input, section.end.offset);
+      const prefix = this.input[offset - 1] === '\n' ? '' : '\n';
+
+      return { start: offset, end: offset, text: `${prefix}${pair}\n` };
+    }
+
+    // Key/value pairs of the root table have to precede the first table header.
+    const [table] = section.elements;
+
+    if (table) {
+      const offset = getCommentBlockStart(this.input, getLineStart(table.start));
+
+      return { start: offset, end: offset, text: `${pair}\n\n` };
+    }
+
+    const prefix = this.input === '' || this.input.endsWith('\n') ? '' : '\n';
+
+    return { start: this.input.length, end: this.input.length, text: `${prefix}${pair}\n` };
+  }
+
+  private formatKey(path: KeyPath) {
+    if (path.some((component) => typeof component === 'number')) {
+      throw makeInvalidPathError(`cannot create ${formatKeyPath(path)}, arrays can only be appended to`);
+    }
+
+    return formatKeyPath(path);
+  }
+}
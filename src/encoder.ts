@@ -0,0 +1,250 @@
+import type { Value } from './normalizer.js';
+import { fromTemporal, isTemporal, type TemporalValue } from './temporal.js';
+import { LocalDate, LocalDateTime, LocalTime, OffsetDateTime } from './types.js';
+import { TOMLError } from './errors.js';
+import { isBareKey } from './utils.js';
+
+// Besides decoded values, Temporal objects are accepted and encoded as the corresponding TOML values.
+export type EncodableValue = Value | TemporalValue | EncodableValue[] | { [K: string]: EncodableValue };
+
+// Arbitrary 64-bit signed integers (from −2^63 to 2^63−1) should be accepted and handled losslessly.
+//
+// https://toml.io/en/v1.0.0#integer
+const MIN_INTEGER = -(2n ** (64n - 1n));
+const MAX_INTEGER = 2n ** (64n - 1n) - 1n;
+
+const isTable = (value: unknown): value is Record<string, EncodableValue> => {
+  if (Object.prototype.toString.call(value) !== '[object Object]') {
+    return false;
+  }
+
+  if (
+    value instanceof OffsetDateTime ||
+    value instanceof LocalDateTime ||
+    value instanceof LocalDate ||
+    value instanceof LocalTime
+  ) {
+    return false;
+  }
+
+  return true;
+};
+
+const isArrayTable = (value: unknown): value is Record<string, EncodableValue>[] => {
+  return Array.isArray(value) && value.length > 0 && value.every((element) => isTable(element));
+};
+
+const encodeString = (value: string) => {
+  let result = '"';
+
+  for (const char of value) {
+    switch (char) {
+      case '\b':
+        result += '\\b';
+
+        break;
+      case '\t':
+        result += '\\t';
+
+        break;
+      case '\n':
+        result += '\\n';
+
+        break;
+      case '\f':
+        result += '\\f';
+
+        break;
+      case '\r':
+        result += '\\r';
+
+        break;
+      case '"':
+        result += '\\"';
+
+        break;
+      case '\\':
+        result += '\\\\';
+
+        break;
+      default:
+        // Control characters other than tab (U+0000 to U+0008, U+000A to U+001F, U+007F) must be escaped.
+        //
+        // https://toml.io/en/v1.0.0#string
+        if (('\u{0}' <= char && char < '\u{20}') || char === '\u{7f}') {
+          result += `\\u${(char.codePointAt(0) as number).toString(16).padStart(4, '0')}`;
+        } else {
+          result += char;
+        }
+    }
+  }
+
+  return `${result}"`;
+};
+
+const encodeKey = (key: string) => {
+  return isBareKey(key) ? key : encodeString(key);
+};
+
+const encodeInteger = (value: bigint) => {
+  if (value < MIN_INTEGER || value > MAX_INTEGER) {
+    throw new TOMLError(`integer ${value} is out of the 64-bit range`, { code: 'INTEGER_OUT_OF_RANGE' });
+  }
+
+  return value.toString(10);
+};
+
+const encodeFloat = (value: number) => {
+  if (Number.isNaN(value)) {
+    return 'nan';
+  }
+
+  if (value === Infinity) {
+    return 'inf';
+  }
+
+  if (value === -Infinity) {
+    return '-inf';
+  }
+
+  if (Object.is(value, -0)) {
+    return '-0.0';
+  }
+
+  const result = value.toString(10);
+
+  // A float consists of an integer part followed by a fractional part and/or an exponent part.
+  //
+  // https://toml.io/en/v1.0.0#float
+  if (result.includes('.') || result.includes('e')) {
+    return result;
+  }
+
+  return `${result}.0`;
+};
+
+const encodeOffsetDateTime = (value: Date | OffsetDateTime) => {
+  if (value instanceof OffsetDateTime) {
+    return value.toISOString();
+  }
+
+  if (Number.isNaN(value.getTime())) {
+    throw new TOMLError('invalid date', { code: 'INVALID_DATE_TIME' });
+  }
+
+  return value.toISOString();
+};
+
+const encodeArray = (value: EncodableValue[]): string => {
+  if (!value.length) {
+    return '[]';
+  }
+
+  return `[ ${value.map((element) => encodeValue(element)).join(', ')} ]`;
+};
+
+const encodeInlineTable = (value: Record<string, EncodableValue>): string => {
+  const entries = Object.entries(value);
+
+  if (!entries.length) {
+    return '{}';
+  }
+
+  return `{ ${entries.map(([key, value]) => `${encodeKey(key)} = ${encodeValue(value)}`).join(', ')} }`;
+};
+
+export const encodeValue = (value: EncodableValue): string => {
+  switch (typeof value) {
+    case 'string':
+      return encodeString(value);
+    case 'bigint':
+      return encodeInteger(value);
+    case 'number':
+      return encodeFloat(value);
+    case 'boolean':
+      return value.toString();
+  }
+
+  if (value instanceof Date || value instanceof OffsetDateTime) {
+    return encodeOffsetDateTime(value);
+  }
+
+  if (value instanceof LocalDateTime || value instanceof LocalDate || value instanceof LocalTime) {
+    return value.toString();
+  }
+
+  if (isTemporal(value)) {
+    return encodeValue(fromTemporal(value));
+  }
+
+  if (Array.isArray(value)) {
+    return encodeArray(value);
+  }
+
+  if (isTable(value)) {
+    return encodeInlineTable(value);
+  }
+
+  throw new TOMLError(`unsupported value of type ${value === null ? 'null' : typeof value}`, {
+    code: 'UNSUPPORTED_VALUE',
+  });
+};
+
+const encodeTable = (table: Record<string, EncodableValue>, path: string[], isArrayTableElement: boolean): string[] => {
+  const pairs: string[] = [];
+  const sections: string[] = [];
+
+  const entries = Object.entries(table);
+
+  for (const [key, value] of entries) {
+    if (typeof value === 'undefined') {
+      throw new TOMLError(`unsupported value of type undefined at key "${[...path, key].join('.')}"`, {
+        code: 'UNSUPPORTED_VALUE',
+      });
+    }
+
+    if (isTable(value)) {
+      sections.push(...encodeTable(value, [...path, key], false));
+    } else if (isArrayTable(value)) {
+      for (const element of value) {
+        sections.push(...encodeTable(element, [...path, key], true));
+      }
+    } else {
+      pairs.push(`${encodeKey(key)} = ${encodeValue(value)}`);
+    }
+  }
+
+  const header = path.map((key) => encodeKey(key)).join('.');
+
+  // Tables that only contain other tables are defined implicitly by their sub-tables, and therefore do not need to be
+  // written out unless they are empty.
+  //
+  // https://toml.io/en/v1.0.0#table
+  if (isArrayTableElement) {
+    return [[`[[${header}]]`, ...pairs].join('\n'), ...sections];
+  }
+
+  if (path.length && (pairs.length || !sections.length)) {
+    return [[`[${header}]`, ...pairs].join('\n'), ...sections];
+  }
+
+  if (pairs.length) {
+    return [pairs.join('\n'), ...sections];
+  }
+
+  return sections;
+};
+
+export const encode = (value: Record<string, EncodableValue>): string => {
+  if (!isTable(value)) {
+    throw new TOMLError('the root value must be a table', { code: 'UNSUPPORTED_VALUE' });
+  }
+
+  const sections = encodeTable(value, [], false);
+
+  if (!sections.length) {
+    return '';
+  }
+
+  return `${sections.join('\n\n')}\n`;
+};
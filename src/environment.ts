@@ -0,0 +1,238 @@
+import type { Position } from './ast.js';
+import { parseValue, type TOMLVersion } from './decoder.js';
+import { TOMLError } from './errors.js';
+import { type IntegerMode, normalize, type Value } from './normalizer.js';
+import type { KeyPath } from './resolver.js';
+import { OffsetDateTime } from './types.js';
+import { withCodeFrame } from './utils.js';
+import { describeValue, isTable } from './values.js';
+
+export interface EnvironmentOptions {
+  // The prefix of the variables to apply, e.g. `APP` for `APP__DATABASE__PORT`.
+  prefix: string;
+  // The separator following the prefix and between keys, `__` by default so that keys may contain underscores.
+  separator?: string;
+  // The version of the specification the values follow, 1.0 by default.
+  version?: TOMLVersion;
+  // How the integers of the document have been decoded, as given to `decode`, `bigint` by default.
+  integers?: IntegerMode;
+}
+
+type Environment = Record<string, string | undefined>;
+
+// Variable names are usually upper case and can't contain dashes, hence keys are matched regardless of case, dashes
+// standing for underscores, e.g. `max-connections` by `MAX_CONNECTIONS`.
+const findComponent = (value: Value<bigint | number>, name: string): string | number | undefined => {
+  if (Array.isArray(value)) {
+    const index = Number(name);
+
+    return /^\d+$/.test(name) && index < value.length ? index : undefined;
+  }
+
+  if (!isTable(value)) {
+    return undefined;
+  }
+
+  return Object.keys(value).find((key) => key.replaceAll('-', '_').toUpperCase() === name.toUpperCase());
+};
+
+const findPath = (document: Record<string, Value<bigint | number>>, names: string[]) => {
+  const path: KeyPath = [];
+
+  let value: Value<bigint | number> = document;
+
+  for (const name of names) {
+    const component = findComponent(value, name);
+
+    if (typeof component === 'undefined') {
+      return undefined;
+    }
+
+    path.push(component);
+
+    value = (value as Record<string | number, Value<bigint | number>>)[component];
+  }
+
+  return { path, value };
+};
+
+type EnvironmentValue = Value<bigint | number>;
+
+const toNumber = (value: bigint, mode: IntegerMode, position: Position) => {
+  const number = Number(value);
+
+  if (mode === 'safe' && !Number.isSafeInteger(number)) {
+    throw new TOMLError(`integer ${value} cannot be represented as a number losslessly`, {
+      code: 'INTEGER_OUT_OF_RANGE',
+      position,
+    });
+  }
+
+  return number;
+};
+
+// Numbers without a fractional part are taken for integers unless integers are decoded as bigints.
+const describeExpectedValue = (value: EnvironmentValue, mode: IntegerMode) => {
+  return mode !== 'bigint' && Number.isInteger(value) ? 'an integer' : describeValue(value);
+};
+
+// Converts a parsed value, decoded with bigint integers and offset date-times, to the representation of the value it
+// replaces, checking that both are of the same type. Elements of arrays are checked against those at the same index,
+// or the last one, and keys of tables against the same keys. Values that have no counterpart, e.g. elements of empty
+// arrays, follow the integer mode.
+const conform = (
+  value: EnvironmentValue,
+  previousValue: EnvironmentValue | undefined,
+  mode: IntegerMode,
+  position: Position,
+): EnvironmentValue => {
+  if (typeof previousValue === 'undefined') {
+    if (typeof value === 'bigint') {
+      return mode === 'bigint' ? value : toNumber(value, mode, position);
+    }
+
+    if (value instanceof OffsetDateTime) {
+      return value.toDate();
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((element) => conform(element, undefined, mode, position));
+    }
+
+    if (isTable(value)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, element]) => [key, conform(element, undefined, mode, position)]),
+      );
+    }
+
+    return value;
+  }
+
+  if (Array.isArray(value) && Array.isArray(previousValue)) {
+    return value.map((element, i) => {
+      return conform(element, previousValue[Math.min(i, previousValue.length - 1)], mode, position);
+    });
+  }
+
+  if (isTable(value) && isTable(previousValue)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, element]) => {
+        const previousElement = Object.prototype.hasOwnProperty.call(previousValue, key)
+          ? previousValue[key]
+          : undefined;
+
+        return [key, conform(element, previousElement, mode, position)];
+      }),
+    );
+  }
+
+  if (typeof previousValue === 'number' && describeExpectedValue(previousValue, mode) === 'an integer') {
+    if (typeof value === 'bigint') {
+      return toNumber(value, mode, position);
+    }
+  } else if (typeof previousValue === 'number') {
+    // Integers are accepted for floats.
+    if (typeof value === 'bigint' || typeof value === 'number') {
+      return Number(value);
+    }
+  } else if (previousValue instanceof Date && value instanceof OffsetDateTime) {
+    return value.toDate();
+  } else if (describeValue(value) === describeValue(previousValue)) {
+    return value;
+  }
+
+  throw new TOMLError(`expected ${describeExpectedValue(previousValue, mode)}, found ${describeValue(value)}`, {
+    code: 'UNSUPPORTED_VALUE',
+    position,
+  });
+};
+
+// Strings are taken as is, other values are parsed as TOML values, ignoring surrounding whitespace, and must be of the
+// type of the value they replace, including the elements of arrays and tables.
+const coerce = (input: string, previousValue: EnvironmentValue, options: EnvironmentOptions) => {
+  if (typeof previousValue === 'string') {
+    return input;
+  }
+
+  const text = input.trim();
+
+  return withCodeFrame(text, () => {
+    const node = parseValue(text, { version: options.version });
+    const value = normalize(node, { offsetDateTimes: 'offset-date-time' }) as EnvironmentValue;
+
+    return conform(value, previousValue, options.integers ?? 'bigint', node.start);
+  });
+};
+
+// Errors name the variable holding the value, e.g. `APP__PORT: invalid number "eighty" (1:1)`.
+const withVariable = <T>(name: string, callback: () => T): T => {
+  try {
+    return callback();
+  } catch (err) {
+    if (err instanceof TOMLError) {
+      const { reason, code, position, frame } = err;
+
+      throw new TOMLError(`${name}: ${reason}`, { code, position, frame });
+    }
+
+    throw err;
+  }
+};
+
+const setValue = (
+  value: Value<bigint | number>,
+  path: KeyPath,
+  nextValue: Value<bigint | number>,
+): Value<bigint | number> => {
+  if (!path.length) {
+    return nextValue;
+  }
+
+  const [component, ...rest] = path;
+
+  if (Array.isArray(value)) {
+    return value.map((element, i) => (i === component ? setValue(element, rest, nextValue) : element));
+  }
+
+  const table = value as Record<string, Value<bigint | number>>;
+
+  return { ...table, [component]: setValue(table[component], rest, nextValue) };
+};
+
+// Overrides the values of a decoded document with environment variables, e.g. `APP__DATABASE__PORT=5432` for
+// `database.port`, or `APP__PRODUCTS__0__NAME` for the name of the first product. Variables naming keys that aren't in
+// the document are ignored, as neither the spelling of their key nor their type is known. The document is left
+// untouched.
+//
+// https://12factor.net/config
+export const overlayEnvironment = <T extends Record<string, unknown>>(
+  document: T,
+  environment: Environment,
+  options: EnvironmentOptions,
+): T => {
+  const separator = options.separator ?? '__';
+  const prefix = `${options.prefix}${separator}`;
+
+  let result = document as Record<string, Value<bigint | number>>;
+
+  // Variables are applied in order of their names, hence those naming tables before those naming keys within.
+  for (const name of Object.keys(environment).sort()) {
+    const input = environment[name];
+
+    if (!name.startsWith(prefix) || typeof input === 'undefined') {
+      continue;
+    }
+
+    const match = findPath(result, name.slice(prefix.length).split(separator));
+
+    if (!match) {
+      continue;
+    }
+
+    const value = withVariable(name, () => coerce(input, match.value, options));
+
+    result = setValue(result, match.path, value) as Record<string, Value<bigint | number>>;
+  }
+
+  return result as T;
+};
@@ -1,6 +1,109 @@
+import type { Position } from './ast.js';
+import { isBareKey } from './utils.js';
+
+export type TOMLErrorCode =
+  | 'INVALID_ENCODING'
+  | 'UNEXPECTED_CHARACTER'
+  | 'UNEXPECTED_TOKEN'
+  | 'UNTERMINATED_STRING'
+  | 'INVALID_CONTROL_CHARACTER'
+  | 'INVALID_ESCAPE_SEQUENCE'
+  | 'INVALID_KEY'
+  | 'INVALID_NUMBER'
+  | 'INTEGER_OUT_OF_RANGE'
+  | 'INVALID_DATE_TIME'
+  | 'DUPLICATE_KEY'
+  | 'DUPLICATE_TABLE'
+  | 'INVALID_TABLE_ORDER'
+  | 'INVALID_PATH'
+  | 'INVALID_SCHEMA'
+  | 'UNSUPPORTED_VALUE';
+
+export interface TOMLErrorOptions {
+  code: TOMLErrorCode;
+  position?: Position;
+  frame?: string;
+  // The path of the file being decoded, if any.
+  file?: string;
+}
+
+const makeMessage = (reason: string, { position, frame, file }: TOMLErrorOptions) => {
+  let message = reason;
+
+  if (file && position) {
+    message += ` (${file}:${position.line}:${position.column})`;
+  } else if (file) {
+    message += ` (${file})`;
+  } else if (position) {
+    message += ` (${position.line}:${position.column})`;
+  }
+
+  if (frame) {
+    message += `\n\n${frame}`;
+  }
+
+  return message;
+};
+
 export class TOMLError extends Error {
-  constructor(message?: string) {
-    super(message);
+  readonly code: TOMLErrorCode;
+  readonly reason: string;
+  readonly position?: Position;
+  readonly line?: number;
+  readonly column?: number;
+  readonly frame?: string;
+  readonly file?: string;
+
+  constructor(reason: string, options: TOMLErrorOptions) {
+    super(makeMessage(reason, options));
+
+    this.name = 'TOMLError';
+    this.code = options.code;
+    this.reason = reason;
+    this.position = options.position;
+    this.line = options.position?.line;
+    this.column = options.position?.column;
+    this.frame = options.frame;
+    this.file = options.file;
+
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+export interface TOMLValidationIssue {
+  // The path of the offending value, e.g. `['servers', 0, 'port']`.
+  path: (string | number)[];
+  reason: string;
+  position?: Position;
+}
+
+const formatIssuePath = (path: TOMLValidationIssue['path']) => {
+  return path.map((component, i) => {
+    if (typeof component === 'number') {
+      return `[${component}]`;
+    }
+
+    const key = isBareKey(component) ? component : JSON.stringify(component);
+
+    return i === 0 ? key : `.${key}`;
+  });
+};
+
+const formatIssue = ({ path, reason, position }: TOMLValidationIssue) => {
+  const location = position ? ` (${position.line}:${position.column})` : '';
+
+  return path.length ? `${formatIssuePath(path).join('')}: ${reason}${location}` : `${reason}${location}`;
+};
+
+// Unlike a `TOMLError`, which stops decoding at the first error, a validation error reports every issue found.
+export class TOMLValidationError extends Error {
+  readonly issues: TOMLValidationIssue[];
+
+  constructor(issues: TOMLValidationIssue[]) {
+    super(issues.map((issue) => formatIssue(issue)).join('\n'));
+
+    this.name = 'TOMLValidationError';
+    this.issues = issues;
 
     Error.captureStackTrace(this, this.constructor);
   }
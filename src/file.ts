@@ -0,0 +1,63 @@
+import { randomBytes } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+
+import { decode, type DecodeOptions } from './decoder.js';
+import { encode, type EncodableValue } from './encoder.js';
+import type { Value } from './normalizer.js';
+import { decodeUTF8, withFile } from './utils.js';
+
+const toFilePath = (path: string | URL) => {
+  return path instanceof URL ? fileURLToPath(path) : path;
+};
+
+const decodeWithFile = (buffer: Uint8Array, file: string, options: DecodeOptions) => {
+  return withFile(file, () => decode(decodeUTF8(buffer), options as DecodeOptions<'bigint'>));
+};
+
+// The type of the decoded integers follows the `integers` option, as with `decode`.
+export function decodeFile<T extends Record<string, unknown> = Record<string, Value<number>>>(
+  path: string | URL,
+  options: DecodeOptions<'number' | 'safe'> & { integers: 'number' | 'safe' },
+): Promise<T>;
+export function decodeFile<T extends Record<string, unknown> = Record<string, Value>>(
+  path: string | URL,
+  options?: DecodeOptions<'bigint'>,
+): Promise<T>;
+export async function decodeFile(path: string | URL, options: DecodeOptions = {}) {
+  const buffer = await readFile(path);
+
+  return decodeWithFile(buffer, toFilePath(path), options);
+}
+
+export function decodeFileSync<T extends Record<string, unknown> = Record<string, Value<number>>>(
+  path: string | URL,
+  options: DecodeOptions<'number' | 'safe'> & { integers: 'number' | 'safe' },
+): T;
+export function decodeFileSync<T extends Record<string, unknown> = Record<string, Value>>(
+  path: string | URL,
+  options?: DecodeOptions<'bigint'>,
+): T;
+export function decodeFileSync(path: string | URL, options: DecodeOptions = {}) {
+  const buffer = readFileSync(path);
+
+  return decodeWithFile(buffer, toFilePath(path), options);
+}
+
+// The document is written to a temporary file next to the target first, then moved in place, so that readers never
+// observe a partially written file.
+export const encodeFile = async (path: string | URL, value: Record<string, EncodableValue>) => {
+  const output = encode(value);
+  const file = toFilePath(path);
+  const tmp = `${file}.${randomBytes(6).toString('hex')}.tmp`;
+
+  try {
+    await writeFile(tmp, output, 'utf-8');
+    await rename(tmp, file);
+  } catch (err) {
+    await rm(tmp, { force: true });
+
+    throw err;
+  }
+};
@@ -0,0 +1,399 @@
+import type {
+  ArrayNode,
+  ArrayTableNode,
+  InlineTableNode,
+  KeyNode,
+  KeyValuePairNode,
+  StringNode,
+  TableNode,
+  TriviaNode,
+  ValueNode,
+} from './ast.js';
+import { parse } from './decoder.js';
+import { encodeValue } from './encoder.js';
+import type { TOMLVersion } from './tokenizer.js';
+import { isBareKey } from './utils.js';
+
+export interface FormatOptions {
+  // The version of the specification to follow, 1.0 by default.
+  version?: TOMLVersion;
+  // The indentation of the elements of wrapped arrays, and of sub-tables if `indentTables` is set. Two spaces by
+  // default.
+  indent?: string;
+  // Indents tables and their key/value pairs by the depth of their header, e.g. `[a.b]` by one level.
+  indentTables?: boolean;
+  // Aligns the `=` signs of consecutive key/value pairs, i.e. those not separated by blank lines.
+  alignEntries?: boolean;
+  // Sorts consecutive key/value pairs by key. Tables keep their order, as does every group of pairs separated by
+  // blank lines.
+  sortKeys?: boolean;
+  // The quotes of single-line strings and quoted keys: `double` (default) and `single` fall back to the other style
+  // when the string can't be written with the preferred one without escapes, `preserve` keeps strings as written.
+  quotes?: 'double' | 'single' | 'preserve';
+  // Arrays longer than this are wrapped, one element per line. 80 by default.
+  printWidth?: number;
+}
+
+interface Entry {
+  node: KeyValuePairNode;
+  // The comments and blank lines preceding the entry, up to and including the last blank line. They separate the
+  // entry from the previous ones, hence stay in place when sorting.
+  separator: string[];
+  // The comments directly above the entry, which move along with it.
+  comments: string[];
+}
+
+// An element of an array or inline table, along with the comments around it.
+interface Item<T> {
+  node: T;
+  comments: string[];
+  trailingComment?: string;
+}
+
+const isMultilineString = (raw: string) => {
+  return raw.startsWith('"""') || raw.startsWith("'''");
+};
+
+// Literal strings can't contain single quotes nor control characters other than tab, as there are no escapes.
+//
+// https://toml.io/en/v1.0.0#string
+const isLiteral = (value: string) => {
+  for (const char of value) {
+    if (char === "'" || (char < '\u{20}' && char !== '\t') || char === '\u{7f}') {
+      return false;
+    }
+  }
+
+  return true;
+};
+
+// Splits trivia into lines, an empty string standing for a blank line, and a comment for a line holding a comment.
+const getLines = (trivia: TriviaNode[] | undefined) => {
+  const lines: string[] = [];
+
+  let line = '';
+
+  for (const node of trivia ?? []) {
+    if (node.type === 'COMMENT') {
+      line = node.value;
+    } else if (node.type === 'NEWLINE') {
+      lines.push(line);
+
+      line = '';
+    }
+  }
+
+  return lines;
+};
+
+const getComment = (trivia: TriviaNode[] | undefined) => {
+  return trivia?.find((node) => node.type === 'COMMENT')?.value;
+};
+
+const collapseBlankLines = (lines: string[]) => {
+  return lines.filter((line, i) => line || i === 0 || lines[i - 1]);
+};
+
+const trimBlankLines = (lines: string[]) => {
+  const start = lines.findIndex((line) => line);
+
+  return start === -1 ? [] : lines.slice(start);
+};
+
+const compareKeys = (a: KeyNode, b: KeyNode) => {
+  const [x, y] = [a, b].map((key) => key.keys.map((key) => key.value).join('\u0000'));
+
+  return x < y ? -1 : x > y ? 1 : 0;
+};
+
+class Formatter {
+  private readonly lines: string[] = [];
+  private readonly unit: string;
+  private readonly printWidth: number;
+
+  constructor(private readonly options: FormatOptions) {
+    this.unit = options.indent ?? '  ';
+    this.printWidth = options.printWidth ?? 80;
+  }
+
+  format(input: string) {
+    const root = parse(input, { cst: true, version: this.options.version });
+
+    let section: KeyValuePairNode[] = [];
+
+    for (const element of root.elements) {
+      if (element.type === 'KEY_VALUE_PAIR') {
+        section.push(element);
+
+        continue;
+      }
+
+      if (section.length) {
+        this.section(section, '');
+      }
+
+      this.header(element);
+
+      section = [];
+    }
+
+    this.section(section, '');
+
+    const closing = collapseBlankLines(getLines(root.closing));
+
+    this.push(...(this.lines.length ? closing : trimBlankLines(closing)));
+
+    while (this.lines.length && !this.lines[this.lines.length - 1]) {
+      this.lines.pop();
+    }
+
+    return this.lines.length ? `${this.lines.join('\n')}\n` : '';
+  }
+
+  private push(...lines: string[]) {
+    this.lines.push(...lines);
+  }
+
+  private header(node: TableNode | ArrayTableNode) {
+    const indent = this.options.indentTables ? this.unit.repeat(node.key.keys.length - 1) : '';
+    const [open, close] = node.type === 'TABLE' ? ['[', ']'] : ['[[', ']]'];
+    const comments = trimBlankLines(collapseBlankLines(getLines(node.leading)));
+    const comment = getComment(node.trailing);
+
+    // Every table is preceded by a single blank line, then by its comments.
+    if (this.lines.length) {
+      this.push('');
+    }
+
+    this.push(...comments.map((line) => (line ? `${indent}${line}` : line)));
+    this.push(`${indent}${open}${this.key(node.key)}${close}${comment ? ` ${comment}` : ''}`);
+
+    this.section(node.elements, indent, true);
+  }
+
+  private section(nodes: KeyValuePairNode[], indent: string, isTable = false) {
+    const blocks: Entry[][] = [];
+
+    nodes.forEach((node, i) => {
+      const lines = getLines(node.leading);
+      const index = lines.lastIndexOf('') + 1;
+
+      let separator = collapseBlankLines(lines.slice(0, index));
+
+      // Blank lines at the start of a table are dropped, those between the comments at the start of the document and
+      // the first key are kept.
+      if (i === 0 && (isTable || !separator.some((line) => line))) {
+        separator = trimBlankLines(separator);
+      }
+
+      const entry = { node, separator, comments: lines.slice(index) };
+
+      if (i === 0 || index > 0) {
+        blocks.push([entry]);
+      } else {
+        blocks[blocks.length - 1].push(entry);
+      }
+    });
+
+    for (const block of blocks) {
+      const [{ separator }] = block;
+
+      if (this.options.sortKeys) {
+        block.sort((a, b) => compareKeys(a.node.key, b.node.key));
+      }
+
+      const keys = block.map((entry) => this.key(entry.node.key));
+      const width = this.options.alignEntries ? Math.max(...keys.map((key) => key.length)) : 0;
+
+      this.push(...separator.map((line) => (line ? `${indent}${line}` : line)));
+
+      block.forEach((entry, i) => {
+        const prefix = `${indent}${keys[i].padEnd(width)} = `;
+        const comment = getComment(entry.node.trailing);
+
+        this.push(...entry.comments.map((line) => `${indent}${line}`));
+        this.push(`${prefix}${this.value(entry.node.value, indent, prefix.length)}${comment ? ` ${comment}` : ''}`);
+      });
+    }
+  }
+
+  private key(node: KeyNode) {
+    return node.keys
+      .map((key) => {
+        if (key.type === 'BARE' || isBareKey(key.value)) {
+          return key.value;
+        }
+
+        return this.string(key);
+      })
+      .join('.');
+  }
+
+  private string(node: StringNode) {
+    const raw = node.raw ?? encodeValue(node.value);
+
+    if (this.options.quotes === 'preserve' || isMultilineString(raw)) {
+      return raw;
+    }
+
+    const basic = encodeValue(node.value);
+    const literal = isLiteral(node.value) ? `'${node.value}'` : null;
+
+    // Literal strings are preferred over basic ones requiring escapes, e.g. for Windows paths or regular expressions,
+    // unless holding tabs, which are better escaped.
+    if (this.options.quotes === 'single' || (literal && basic.includes('\\') && !node.value.includes('\t'))) {
+      return literal ?? basic;
+    }
+
+    return basic;
+  }
+
+  // Formats a value starting at the given column, on the line with the given indentation.
+  private value(node: ValueNode, indent: string, column: number): string {
+    switch (node.type) {
+      case 'ARRAY':
+        return this.array(node, indent, column);
+      case 'INLINE_TABLE':
+        return this.inlineTable(node, indent, column);
+      case 'STRING':
+        return this.string(node);
+      default:
+        return node.raw ?? encodeValue(node.value);
+    }
+  }
+
+  private array(node: ArrayNode, indent: string, column: number) {
+    const { items, closing } = this.items(node.elements, node.closing);
+    const flat = this.flat(node);
+
+    if (flat !== null && column + flat.length <= this.printWidth) {
+      return flat;
+    }
+
+    const inner = `${indent}${this.unit}`;
+    const lines = items.map(({ node, comments, trailingComment }) => {
+      const value = `${inner}${this.value(node, inner, inner.length)},${trailingComment ? ` ${trailingComment}` : ''}`;
+
+      return [...comments.map((line) => `${inner}${line}`), value].join('\n');
+    });
+
+    return ['[', ...lines, ...closing.map((line) => `${inner}${line}`), `${indent}]`].join('\n');
+  }
+
+  private inlineTable(node: InlineTableNode, indent: string, column: number) {
+    const { items, closing } = this.items(node.elements, node.closing);
+
+    if (this.options.sortKeys) {
+      items.sort((a, b) => compareKeys(a.node.key, b.node.key));
+    }
+
+    // Inline tables may only span several lines, and hold comments, as of TOML 1.1.
+    if (items.some((item) => item.comments.length || item.trailingComment) || closing.length) {
+      const inner = `${indent}${this.unit}`;
+      const lines = items.map(({ node, comments, trailingComment }) => {
+        const prefix = `${inner}${this.key(node.key)} = `;
+        const value = `${prefix}${this.value(node.value, inner, prefix.length)},${
+          trailingComment ? ` ${trailingComment}` : ''
+        }`;
+
+        return [...comments.map((line) => `${inner}${line}`), value].join('\n');
+      });
+
+      return ['{', ...lines, ...closing.map((line) => `${inner}${line}`), `${indent}}`].join('\n');
+    }
+
+    if (!items.length) {
+      return '{}';
+    }
+
+    let offset = column + 2;
+
+    const entries = items.map(({ node }) => {
+      const prefix = `${this.key(node.key)} = `;
+      const entry = `${prefix}${this.value(node.value, indent, offset + prefix.length)}`;
+
+      offset += entry.length + 2;
+
+      return entry;
+    });
+
+    return `{ ${entries.join(', ')} }`;
+  }
+
+  // Formats a value on a single line, or returns `null` if it can't be, i.e. if it holds comments or newlines.
+  private flat(node: ValueNode): string | null {
+    switch (node.type) {
+      case 'ARRAY': {
+        const { items, closing } = this.items(node.elements, node.closing);
+
+        if (items.some((item) => item.comments.length || item.trailingComment) || closing.length) {
+          return null;
+        }
+
+        const elements = node.elements.map((element) => this.flat(element));
+
+        return elements.every((element) => element !== null) ? `[${elements.join(', ')}]` : null;
+      }
+      case 'INLINE_TABLE': {
+        const value = this.inlineTable(node, '', 0);
+
+        return value.includes('\n') ? null : value;
+      }
+      default: {
+        const value = this.value(node, '', 0);
+
+        return value.includes('\n') ? null : value;
+      }
+    }
+  }
+
+  // Comments on the line of an element, i.e. after it or its comma, are kept after it. Comments on lines of their own
+  // are kept above the next element, or before the closing bracket after the last one.
+  private items<T extends ValueNode | KeyValuePairNode>(nodes: T[], closing: TriviaNode[] | undefined) {
+    const items: Item<T>[] = [];
+
+    let comments: string[] = [];
+    let isNewLine = false;
+
+    const take = (trivia: TriviaNode[] | undefined) => {
+      for (const node of trivia ?? []) {
+        if (node.type === 'NEWLINE') {
+          isNewLine = true;
+        } else if (node.type === 'COMMENT') {
+          if (!isNewLine && items.length) {
+            items[items.length - 1].trailingComment = node.value;
+          } else {
+            comments.push(node.value);
+          }
+        }
+      }
+    };
+
+    for (const node of nodes) {
+      take(node.leading);
+
+      items.push({ node, comments });
+
+      comments = [];
+      isNewLine = false;
+
+      if (node.type === 'KEY_VALUE_PAIR') {
+        take(node.value.trailing);
+      }
+
+      take(node.trailing);
+    }
+
+    take(closing);
+
+    return { items, closing: comments };
+  }
+}
+
+// Reformats a document in a canonical style, keeping its comments. Only whitespace, quotes, and the order of keys if
+// `sortKeys` is set, are changed, hence the document decodes to the same value.
+export const format = (input: string, options: FormatOptions = {}) => {
+  const formatter = new Formatter(options);
+
+  return formatter.format(input);
+};
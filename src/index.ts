@@ -1,2 +1,19 @@
+export * from './ast.js';
 export * from './decoder.js';
+export * from './document.js';
+export * from './encoder.js';
+export * from './environment.js';
+export * from './errors.js';
+export * from './file.js';
+export * from './formatter.js';
+export * from './json.js';
+export * from './json-schema.js';
+export * from './language-server.js';
+export * from './locator.js';
+export * from './merge.js';
+export * from './normalizer.js';
+export * from './printer.js';
+export * from './schema.js';
+export * from './stream.js';
+export * from './temporal.js';
 export * from './types.js';
@@ -0,0 +1,539 @@
+import type { RootTableNode } from './ast.js';
+import { type DecodeOptions, parse } from './decoder.js';
+import { encodeValue } from './encoder.js';
+import { TOMLError, TOMLValidationError, type TOMLValidationIssue } from './errors.js';
+import { normalize, type Value } from './normalizer.js';
+import { type KeyPath, locatePath, resolve } from './resolver.js';
+import { LocalDate, LocalDateTime, LocalTime, OffsetDateTime } from './types.js';
+import { withCodeFrame } from './utils.js';
+import { describeValue, isTable } from './values.js';
+
+export type JSONSchema = boolean | JSONSchemaObject;
+
+export type JSONSchemaType = 'null' | 'boolean' | 'object' | 'array' | 'number' | 'integer' | 'string';
+
+export interface JSONSchemaObject {
+  $id?: string;
+  $anchor?: string;
+  $ref?: string;
+  $defs?: Record<string, JSONSchema>;
+  type?: JSONSchemaType | JSONSchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  format?: string;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  prefixItems?: JSONSchema[];
+  items?: JSONSchema;
+  contains?: JSONSchema;
+  minContains?: number;
+  maxContains?: number;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  properties?: Record<string, JSONSchema>;
+  patternProperties?: Record<string, JSONSchema>;
+  additionalProperties?: JSONSchema;
+  propertyNames?: JSONSchema;
+  required?: string[];
+  minProperties?: number;
+  maxProperties?: number;
+  dependentRequired?: Record<string, string[]>;
+  dependentSchemas?: Record<string, JSONSchema>;
+  allOf?: JSONSchema[];
+  anyOf?: JSONSchema[];
+  oneOf?: JSONSchema[];
+  not?: JSONSchema;
+  if?: JSONSchema;
+  then?: JSONSchema;
+  else?: JSONSchema;
+  [keyword: string]: unknown;
+}
+
+// TOML date-times, dates and times have no counterpart in JSON, where they'd be strings in the respective `format`.
+// Local date-times and times are named after RFC 3339 partial times, as popularized by taplo.
+//
+// https://json-schema.org/draft/2020-12/json-schema-validation#name-dates-times-and-duration
+const FORMATS: Record<string, { description: string; is: (value: Value) => boolean; pattern: RegExp }> = {
+  'date-time': {
+    description: 'an offset date-time',
+    is: (value) => value instanceof Date || value instanceof OffsetDateTime,
+    pattern: /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/,
+  },
+  'partial-date-time': {
+    description: 'a local date-time',
+    is: (value) => value instanceof LocalDateTime,
+    pattern: /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?$/,
+  },
+  'date': {
+    description: 'a local date',
+    is: (value) => value instanceof LocalDate,
+    pattern: /^\d{4}-\d{2}-\d{2}$/,
+  },
+  'partial-time': {
+    description: 'a local time',
+    is: (value) => value instanceof LocalTime,
+    pattern: /^\d{2}:\d{2}:\d{2}(\.\d+)?$/,
+  },
+};
+
+FORMATS['local-date-time'] = FORMATS['partial-date-time'];
+FORMATS['local-date'] = FORMATS.date;
+FORMATS['local-time'] = FORMATS['partial-time'];
+FORMATS.time = FORMATS['partial-time'];
+
+const isDateTime = (value: Value) => {
+  return (
+    value instanceof Date ||
+    value instanceof OffsetDateTime ||
+    value instanceof LocalDateTime ||
+    value instanceof LocalDate ||
+    value instanceof LocalTime
+  );
+};
+
+// Integers are mapped to the `integer` type, floats to `number`, and date-times, dates and times to `string`. Just as in
+// JSON Schema, floats without a fractional part are integers too.
+//
+// https://json-schema.org/draft/2020-12/json-schema-core#name-instance-data-model
+const getTypes = (value: Value): JSONSchemaType[] => {
+  if (typeof value === 'string' || isDateTime(value)) {
+    return ['string'];
+  }
+
+  if (typeof value === 'bigint') {
+    return ['integer', 'number'];
+  }
+
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? ['integer', 'number'] : ['number'];
+  }
+
+  if (typeof value === 'boolean') {
+    return ['boolean'];
+  }
+
+  if (value === null) {
+    return ['null'];
+  }
+
+  return Array.isArray(value) ? ['array'] : ['object'];
+};
+
+const isNumeric = (value: unknown): value is bigint | number => {
+  return typeof value === 'bigint' || typeof value === 'number';
+};
+
+// Compares a TOML value to a JSON value, e.g. from `enum` or `const`, by the JSON value it'd be represented with.
+const isEqual = (value: Value | unknown, other: unknown): boolean => {
+  // Integers equal numbers of the same value only, e.g. not the string `"8080"`, which loose equality would allow.
+  if (typeof value === 'bigint' || typeof other === 'bigint') {
+    return isNumeric(value) && isNumeric(other) && value == other;
+  }
+
+  if (value instanceof Date || value instanceof OffsetDateTime) {
+    const date = value instanceof Date ? value : value.toDate();
+
+    return typeof other === 'string' && new Date(other).getTime() === date.getTime();
+  }
+
+  if (value instanceof LocalDateTime || value instanceof LocalDate || value instanceof LocalTime) {
+    return typeof other === 'string' && encodeValue(value) === other;
+  }
+
+  if (Array.isArray(value)) {
+    return (
+      Array.isArray(other) && value.length === other.length && value.every((element, i) => isEqual(element, other[i]))
+    );
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    if (typeof other !== 'object' || other === null || Array.isArray(other)) {
+      return false;
+    }
+
+    const keys = Object.keys(value);
+
+    return (
+      keys.length === Object.keys(other).length &&
+      keys.every(
+        (key) =>
+          Object.prototype.hasOwnProperty.call(other, key) &&
+          isEqual((value as Record<string, unknown>)[key], (other as Record<string, unknown>)[key]),
+      )
+    );
+  }
+
+  return value === other;
+};
+
+const isMultipleOf = (value: bigint | number, divisor: number) => {
+  if (typeof value === 'bigint' && Number.isInteger(divisor)) {
+    return value % BigInt(divisor) === 0n;
+  }
+
+  const quotient = Number(value) / divisor;
+
+  return Number.isFinite(quotient) && Number.isInteger(quotient);
+};
+
+const countCharacters = (value: string) => {
+  return [...value].length;
+};
+
+const makeInvalidSchemaError = (reason: string) => {
+  return new TOMLError(reason, { code: 'INVALID_SCHEMA' });
+};
+
+// Validates against a subset of JSON Schema draft 2020-12: all the assertions and applicators are supported except for
+// `unevaluatedItems`, `unevaluatedProperties` and `$dynamicRef`, references are resolved within the schema document.
+//
+// https://json-schema.org/draft/2020-12/json-schema-core
+class JSONSchemaValidator {
+  private readonly anchors = new Map<string, JSONSchema>();
+
+  constructor(private readonly root: JSONSchema) {
+    this.collectAnchors(root);
+  }
+
+  check(schema: JSONSchema, value: Value, path: KeyPath, issues: TOMLValidationIssue[]) {
+    if (schema === true) {
+      return;
+    }
+
+    if (schema === false) {
+      issues.push({ path, reason: 'no value is allowed here' });
+
+      return;
+    }
+
+    if (typeof schema.$ref === 'string') {
+      this.check(this.dereference(schema.$ref), value, path, issues);
+    }
+
+    this.checkGeneric(schema, value, path, issues);
+    this.checkApplicators(schema, value, path, issues);
+
+    if (typeof value === 'string') {
+      this.checkString(schema, value, path, issues);
+    } else if (typeof value === 'bigint' || typeof value === 'number') {
+      this.checkNumber(schema, value, path, issues);
+    } else if (Array.isArray(value)) {
+      this.checkArray(schema, value, path, issues);
+    } else if (isTable(value)) {
+      this.checkObject(schema, value, path, issues);
+    }
+  }
+
+  private isValid(schema: JSONSchema, value: Value, path: KeyPath) {
+    const issues: TOMLValidationIssue[] = [];
+
+    this.check(schema, value, path, issues);
+
+    return !issues.length;
+  }
+
+  private checkGeneric(schema: JSONSchemaObject, value: Value, path: KeyPath, issues: TOMLValidationIssue[]) {
+    if (typeof schema.type !== 'undefined') {
+      const expected = Array.isArray(schema.type) ? schema.type : [schema.type];
+      const types = getTypes(value);
+
+      if (!expected.some((type) => types.includes(type))) {
+        issues.push({ path, reason: `expected ${expected.join(' or ')}, found ${describeValue(value)}` });
+      }
+    }
+
+    if (Array.isArray(schema.enum) && !schema.enum.some((other) => isEqual(value, other))) {
+      const description = schema.enum.map((other) => JSON.stringify(other)).join(', ');
+
+      issues.push({ path, reason: `expected one of ${description}` });
+    }
+
+    if ('const' in schema && !isEqual(value, schema.const)) {
+      issues.push({ path, reason: `expected ${JSON.stringify(schema.const)}` });
+    }
+
+    const format = typeof schema.format === 'string' ? FORMATS[schema.format] : undefined;
+
+    if (format && isDateTime(value) && !format.is(value)) {
+      issues.push({ path, reason: `expected ${format.description}, found ${describeValue(value)}` });
+    }
+
+    if (format && typeof value === 'string' && !format.pattern.test(value)) {
+      issues.push({ path, reason: `expected a string in the "${schema.format}" format` });
+    }
+  }
+
+  private checkApplicators(schema: JSONSchemaObject, value: Value, path: KeyPath, issues: TOMLValidationIssue[]) {
+    for (const subschema of schema.allOf ?? []) {
+      this.check(subschema, value, path, issues);
+    }
+
+    if (schema.anyOf && !schema.anyOf.some((subschema) => this.isValid(subschema, value, path))) {
+      issues.push({ path, reason: 'expected the value to match at least one of the "anyOf" schemas' });
+    }
+
+    if (schema.oneOf) {
+      const count = schema.oneOf.filter((subschema) => this.isValid(subschema, value, path)).length;
+
+      if (count !== 1) {
+        issues.push({
+          path,
+          reason: `expected the value to match exactly one of the "oneOf" schemas, matched ${count}`,
+        });
+      }
+    }
+
+    if (typeof schema.not !== 'undefined' && this.isValid(schema.not, value, path)) {
+      issues.push({ path, reason: 'expected the value not to match the "not" schema' });
+    }
+
+    if (typeof schema.if !== 'undefined') {
+      const subschema = this.isValid(schema.if, value, path) ? schema.then : schema.else;
+
+      if (typeof subschema !== 'undefined') {
+        this.check(subschema, value, path, issues);
+      }
+    }
+  }
+
+  private checkString(schema: JSONSchemaObject, value: string, path: KeyPath, issues: TOMLValidationIssue[]) {
+    const length = countCharacters(value);
+
+    if (typeof schema.minLength === 'number' && length < schema.minLength) {
+      issues.push({ path, reason: `expected at least ${schema.minLength} characters` });
+    }
+
+    if (typeof schema.maxLength === 'number' && length > schema.maxLength) {
+      issues.push({ path, reason: `expected at most ${schema.maxLength} characters` });
+    }
+
+    if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern, 'u').test(value)) {
+      issues.push({ path, reason: `expected a string matching /${schema.pattern}/` });
+    }
+  }
+
+  private checkNumber(schema: JSONSchemaObject, value: bigint | number, path: KeyPath, issues: TOMLValidationIssue[]) {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      issues.push({ path, reason: `expected a number greater than or equal to ${schema.minimum}, found ${value}` });
+    }
+
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      issues.push({ path, reason: `expected a number less than or equal to ${schema.maximum}, found ${value}` });
+    }
+
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      issues.push({ path, reason: `expected a number greater than ${schema.exclusiveMinimum}, found ${value}` });
+    }
+
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      issues.push({ path, reason: `expected a number less than ${schema.exclusiveMaximum}, found ${value}` });
+    }
+
+    if (typeof schema.multipleOf === 'number' && !isMultipleOf(value, schema.multipleOf)) {
+      issues.push({ path, reason: `expected a multiple of ${schema.multipleOf}, found ${value}` });
+    }
+  }
+
+  private checkArray(schema: JSONSchemaObject, value: Value[], path: KeyPath, issues: TOMLValidationIssue[]) {
+    const prefixItems = schema.prefixItems ?? [];
+
+    value.forEach((element, i) => {
+      const subschema = i < prefixItems.length ? prefixItems[i] : schema.items;
+
+      if (typeof subschema !== 'undefined') {
+        this.check(subschema, element, [...path, i], issues);
+      }
+    });
+
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      issues.push({ path, reason: `expected at least ${schema.minItems} elements` });
+    }
+
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      issues.push({ path, reason: `expected at most ${schema.maxItems} elements` });
+    }
+
+    if (schema.uniqueItems && value.some((element, i) => value.slice(0, i).some((other) => isEqual(element, other)))) {
+      issues.push({ path, reason: 'expected unique elements' });
+    }
+
+    if (typeof schema.contains !== 'undefined') {
+      const { contains, minContains = 1, maxContains = Infinity } = schema;
+      const count = value.filter((element, i) => this.isValid(contains, element, [...path, i])).length;
+
+      if (count < minContains) {
+        issues.push({ path, reason: `expected at least ${minContains} elements matching the "contains" schema` });
+      }
+
+      if (count > maxContains) {
+        issues.push({ path, reason: `expected at most ${maxContains} elements matching the "contains" schema` });
+      }
+    }
+  }
+
+  private checkObject(
+    schema: JSONSchemaObject,
+    value: Record<string, Value>,
+    path: KeyPath,
+    issues: TOMLValidationIssue[],
+  ) {
+    const keys = Object.keys(value);
+
+    for (const key of schema.required ?? []) {
+      if (!keys.includes(key)) {
+        issues.push({ path: [...path, key], reason: 'missing required key' });
+      }
+    }
+
+    for (const [key, dependencies] of Object.entries(schema.dependentRequired ?? {})) {
+      for (const dependency of keys.includes(key) ? dependencies : []) {
+        if (!keys.includes(dependency)) {
+          issues.push({ path: [...path, dependency], reason: `missing key required by "${key}"` });
+        }
+      }
+    }
+
+    for (const [key, subschema] of Object.entries(schema.dependentSchemas ?? {})) {
+      if (keys.includes(key)) {
+        this.check(subschema, value, path, issues);
+      }
+    }
+
+    if (typeof schema.minProperties === 'number' && keys.length < schema.minProperties) {
+      issues.push({ path, reason: `expected at least ${schema.minProperties} keys` });
+    }
+
+    if (typeof schema.maxProperties === 'number' && keys.length > schema.maxProperties) {
+      issues.push({ path, reason: `expected at most ${schema.maxProperties} keys` });
+    }
+
+    const patterns = Object.entries(schema.patternProperties ?? {}).map(([pattern, subschema]) => {
+      return [new RegExp(pattern, 'u'), subschema] as const;
+    });
+
+    for (const key of keys) {
+      const keyPath = [...path, key];
+
+      if (typeof schema.propertyNames !== 'undefined' && !this.isValid(schema.propertyNames, key, keyPath)) {
+        issues.push({ path: keyPath, reason: 'key does not match the "propertyNames" schema' });
+      }
+
+      let isEvaluated = false;
+
+      if (schema.properties && Object.prototype.hasOwnProperty.call(schema.properties, key)) {
+        this.check(schema.properties[key], value[key], keyPath, issues);
+
+        isEvaluated = true;
+      }
+
+      for (const [regexp, subschema] of patterns) {
+        if (regexp.test(key)) {
+          this.check(subschema, value[key], keyPath, issues);
+
+          isEvaluated = true;
+        }
+      }
+
+      if (!isEvaluated && typeof schema.additionalProperties !== 'undefined') {
+        if (schema.additionalProperties === false) {
+          issues.push({ path: keyPath, reason: 'unknown key' });
+        } else {
+          this.check(schema.additionalProperties, value[key], keyPath, issues);
+        }
+      }
+    }
+  }
+
+  private collectAnchors(schema: JSONSchema | unknown) {
+    if (typeof schema !== 'object' || schema === null) {
+      return;
+    }
+
+    if (Array.isArray(schema)) {
+      schema.forEach((subschema) => this.collectAnchors(subschema));
+
+      return;
+    }
+
+    const { $id, $anchor } = schema as JSONSchemaObject;
+
+    if (typeof $id === 'string') {
+      this.anchors.set($id, schema as JSONSchema);
+    }
+
+    if (typeof $anchor === 'string') {
+      this.anchors.set(`#${$anchor}`, schema as JSONSchema);
+    }
+
+    Object.values(schema).forEach((subschema) => this.collectAnchors(subschema));
+  }
+
+  // https://json-schema.org/draft/2020-12/json-schema-core#name-json-pointers-and-relative-
+  private dereference(ref: string): JSONSchema {
+    const anchor = this.anchors.get(ref);
+
+    if (anchor) {
+      return anchor;
+    }
+
+    if (!ref.startsWith('#')) {
+      throw makeInvalidSchemaError(`cannot resolve "${ref}", only references within the schema are supported`);
+    }
+
+    const tokens = ref
+      .slice(1)
+      .split('/')
+      .slice(1)
+      .map((token) => decodeURIComponent(token).replaceAll('~1', '/').replaceAll('~0', '~'));
+
+    const schema = tokens.reduce<unknown>((acc, token) => {
+      if (typeof acc !== 'object' || acc === null || !Object.prototype.hasOwnProperty.call(acc, token)) {
+        throw makeInvalidSchemaError(`cannot resolve "${ref}"`);
+      }
+
+      return (acc as Record<string, unknown>)[token];
+    }, this.root);
+
+    return schema as JSONSchema;
+  }
+}
+
+// Validates a decoded value against a JSON Schema, reporting all issues at once. Given the tree the value has been
+// decoded from, the issues carry the position of the offending values.
+export const validateJSONSchema = <T extends Record<string, Value>>(
+  schema: JSONSchema,
+  value: Value,
+  rootTableNode?: RootTableNode,
+): T => {
+  const validator = new JSONSchemaValidator(schema);
+  const issues: TOMLValidationIssue[] = [];
+
+  validator.check(schema, value, [], issues);
+
+  if (issues.length) {
+    const definitions = rootTableNode ? resolve(rootTableNode) : [];
+
+    throw new TOMLValidationError(issues.map((issue) => ({ ...issue, position: locatePath(definitions, issue.path) })));
+  }
+
+  return value as T;
+};
+
+export const decodeWithJSONSchema = <T extends Record<string, Value>>(
+  input: string,
+  schema: JSONSchema,
+  options: DecodeOptions = {},
+): T => {
+  const node = parse(input, { version: options.version });
+
+  const value = withCodeFrame(input, () => normalize(node, options));
+
+  return validateJSONSchema<T>(schema, value, node);
+};
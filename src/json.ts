@@ -0,0 +1,243 @@
+import { encodeValue } from './encoder.js';
+import { TOMLError } from './errors.js';
+import type { OffsetDateTimeMode, Value } from './normalizer.js';
+import { LocalDate, LocalDateTime, LocalTime, OffsetDateTime } from './types.js';
+import { isTable } from './values.js';
+
+export type JSONValue = string | number | boolean | null | JSONValue[] | { [K: string]: JSONValue };
+
+export type TaggedType =
+  | 'string'
+  | 'integer'
+  | 'float'
+  | 'bool'
+  | 'datetime'
+  | 'datetime-local'
+  | 'date-local'
+  | 'time-local';
+
+// The JSON encoding of the toml-test suite, where every scalar is an object holding its TOML type and its value as a
+// string, so that no information is lost.
+//
+// https://github.com/toml-lang/toml-test#json-encoding
+export interface TaggedScalar {
+  type: TaggedType;
+  value: string;
+}
+
+export type TaggedValue = TaggedScalar | TaggedValue[] | { [K: string]: TaggedValue };
+
+export interface TaggedJSONOptions {
+  offsetDateTimes?: OffsetDateTimeMode;
+}
+
+export interface JSONOptions {
+  // How integers are written:
+  // - `auto`, as numbers when they can be represented exactly, as strings otherwise (default);
+  // - `number` always, at the risk of losing precision beyond `Number.MAX_SAFE_INTEGER`;
+  // - `string` always.
+  integers?: 'auto' | 'number' | 'string';
+  // How infinities and NaN are written: as the strings `inf`, `-inf` and `nan` (default), or as `null` like
+  // `JSON.stringify` does.
+  nonFiniteFloats?: 'string' | 'null';
+  // How date-times, dates and times are written: as their TOML representation (default), or as tagged objects.
+  dateTimes?: 'string' | 'tagged';
+}
+
+const TAGGED_TYPES: TaggedType[] = [
+  'string',
+  'integer',
+  'float',
+  'bool',
+  'datetime',
+  'datetime-local',
+  'date-local',
+  'time-local',
+];
+
+const isTaggedScalar = (value: unknown): value is TaggedScalar => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+
+  const keys = Object.keys(value);
+
+  return (
+    keys.length === 2 &&
+    TAGGED_TYPES.includes((value as TaggedScalar).type) &&
+    typeof (value as TaggedScalar).value === 'string'
+  );
+};
+
+const invalidValue = (message: string) => {
+  return new TOMLError(message, { code: 'UNSUPPORTED_VALUE' });
+};
+
+const toTaggedScalar = (value: Value): TaggedScalar | null => {
+  switch (typeof value) {
+    case 'string':
+      return { type: 'string', value };
+    case 'bigint':
+      return { type: 'integer', value: value.toString(10) };
+    case 'number':
+      return { type: 'float', value: encodeValue(value) };
+    case 'boolean':
+      return { type: 'bool', value: value.toString() };
+  }
+
+  if (value instanceof Date || value instanceof OffsetDateTime) {
+    return { type: 'datetime', value: encodeValue(value) };
+  }
+
+  if (value instanceof LocalDateTime) {
+    return { type: 'datetime-local', value: value.toString() };
+  }
+
+  if (value instanceof LocalDate) {
+    return { type: 'date-local', value: value.toString() };
+  }
+
+  if (value instanceof LocalTime) {
+    return { type: 'time-local', value: value.toString() };
+  }
+
+  return null;
+};
+
+const toTaggedValue = (value: Value): TaggedValue => {
+  const scalar = toTaggedScalar(value);
+
+  if (scalar) {
+    return scalar;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((element) => toTaggedValue(element));
+  }
+
+  return Object.fromEntries(Object.entries(value).map(([key, value]) => [key, toTaggedValue(value)]));
+};
+
+// Floats may be written in any form TOML or JavaScript accept, e.g. `1e3`, `+inf` or `-nan`.
+const parseFloatValue = (value: string) => {
+  const special = /^([+-])?(inf|nan)$/.exec(value);
+
+  if (special) {
+    return special[2] === 'nan' ? NaN : special[1] === '-' ? -Infinity : Infinity;
+  }
+
+  const result = Number(value.replaceAll('_', ''));
+
+  if (!value.trim() || Number.isNaN(result)) {
+    throw invalidValue(`invalid float "${value}"`);
+  }
+
+  return result;
+};
+
+const fromTaggedScalar = ({ type, value }: TaggedScalar, options: TaggedJSONOptions): Value => {
+  switch (type) {
+    case 'string':
+      return value;
+    case 'integer':
+      if (!/^[+-]?\d+$/.test(value)) {
+        throw invalidValue(`invalid integer "${value}"`);
+      }
+
+      return BigInt(value);
+    case 'float':
+      return parseFloatValue(value);
+    case 'bool':
+      if (value !== 'true' && value !== 'false') {
+        throw invalidValue(`invalid bool "${value}"`);
+      }
+
+      return value === 'true';
+    case 'datetime': {
+      const offsetDateTime = OffsetDateTime.fromString(value);
+
+      return options.offsetDateTimes === 'offset-date-time' ? offsetDateTime : offsetDateTime.toDate();
+    }
+    case 'datetime-local':
+      return LocalDateTime.fromString(value);
+    case 'date-local':
+      return LocalDate.fromString(value);
+    case 'time-local':
+      return LocalTime.fromString(value);
+  }
+};
+
+const fromTaggedValue = (value: unknown, options: TaggedJSONOptions): Value => {
+  if (isTaggedScalar(value)) {
+    return fromTaggedScalar(value, options);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((element) => fromTaggedValue(element, options));
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    throw invalidValue(`unexpected untagged value ${JSON.stringify(value)}`);
+  }
+
+  return Object.fromEntries(Object.entries(value).map(([key, value]) => [key, fromTaggedValue(value, options)]));
+};
+
+// Converts a decoded document to the tagged JSON encoding, e.g. `JSON.stringify(toTaggedJSON(decode(input)))`.
+export const toTaggedJSON = (value: Record<string, Value>): Record<string, TaggedValue> => {
+  return toTaggedValue(value) as Record<string, TaggedValue>;
+};
+
+// Converts the tagged JSON encoding back to the values `decode` returns, e.g.
+// `encode(fromTaggedJSON(JSON.parse(json)))`. Objects with exactly a `type` and a string `value` are read as scalars,
+// as in toml-test.
+export const fromTaggedJSON = (json: unknown, options: TaggedJSONOptions = {}): Record<string, Value> => {
+  const value = fromTaggedValue(json, options);
+
+  if (!isTable(value)) {
+    throw invalidValue('the root value must be an object');
+  }
+
+  return value;
+};
+
+// Converts a decoded document, or any value of it, to plain JSON values, the types JSON has no counterpart for being
+// written as configured.
+export function toJSON(value: Record<string, Value>, options?: JSONOptions): Record<string, JSONValue>;
+export function toJSON(value: Value, options?: JSONOptions): JSONValue;
+export function toJSON(value: Value, options: JSONOptions = {}): JSONValue {
+  const convert = (value: Value): JSONValue => {
+    if (typeof value === 'bigint') {
+      switch (options.integers) {
+        case 'number':
+          return Number(value);
+        case 'string':
+          return value.toString(10);
+        default:
+          return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString(10);
+      }
+    }
+
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      return options.nonFiniteFloats === 'null' ? null : encodeValue(value);
+    }
+
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      return value;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((element) => convert(element));
+    }
+
+    if (isTable(value)) {
+      return Object.fromEntries(Object.entries(value).map(([key, value]) => [key, convert(value)]));
+    }
+
+    const scalar = toTaggedScalar(value) as TaggedScalar;
+
+    return options.dateTimes === 'tagged' ? { type: scalar.type, value: scalar.value } : scalar.value;
+  };
+
+  return convert(value);
+}
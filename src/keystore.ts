@@ -9,6 +9,11 @@ const makeKey = (keyNode: KeyNode) => {
   return makeKeyComponents(keyNode).join('.');
 };
 
+// Renders an internal key such as `products.[1].name` the way users refer to it, i.e. `products[1].name`.
+const makeDisplayKey = (key: string) => {
+  return key.replace(/\.\[(\d+)]/g, '[$1]');
+};
+
 const makeHeaderFromArrayTable = (arrayTable: string) => {
   return arrayTable
     .split('.')
@@ -53,8 +58,18 @@ export class Keystore {
         key += `.${component}`;
       }
 
-      if (this.keys.has(key) || this.tables.includes(key)) {
-        throw new TOMLError();
+      if (this.keys.has(key)) {
+        throw new TOMLError(`duplicate key "${makeDisplayKey(key)}"`, {
+          code: 'DUPLICATE_KEY',
+          position: keyValuePairNode.key.start,
+        });
+      }
+
+      if (this.tables.includes(key)) {
+        throw new TOMLError(`key "${makeDisplayKey(key)}" is already defined as a table`, {
+          code: 'DUPLICATE_KEY',
+          position: keyValuePairNode.key.start,
+        });
       }
 
       // As long as a key hasn't been directly defined, you may still write to it and to names within it.
@@ -63,7 +78,10 @@ export class Keystore {
       if (components.length > 1 && i < components.length - 1) {
         this.implicitTables.add(key);
       } else if (this.implicitTables.has(key)) {
-        throw new TOMLError();
+        throw new TOMLError(`key "${makeDisplayKey(key)}" is already defined as a table`, {
+          code: 'DUPLICATE_KEY',
+          position: keyValuePairNode.key.start,
+        });
       }
     }
 
@@ -91,7 +109,10 @@ export class Keystore {
       //
       // https://toml.io/en/v1.0.0#array-of-tables
       if (!components.length) {
-        throw new TOMLError();
+        throw new TOMLError(`table "${header}" is already defined as an array of tables`, {
+          code: 'DUPLICATE_TABLE',
+          position: tableNode.key.start,
+        });
       }
 
       key = `${arrayTable}.`;
@@ -107,12 +128,25 @@ export class Keystore {
       }
 
       if (this.keys.has(key)) {
-        throw new TOMLError();
+        throw new TOMLError(`table "${makeDisplayKey(key)}" is already defined as a value`, {
+          code: 'DUPLICATE_TABLE',
+          position: tableNode.key.start,
+        });
       }
     }
 
-    if (this.arrayTables.includes(key) || this.tables.includes(key) || this.implicitTables.has(key)) {
-      throw new TOMLError();
+    if (this.arrayTables.includes(key) || this.tables.includes(key)) {
+      throw new TOMLError(`duplicate table "${makeDisplayKey(key)}"`, {
+        code: 'DUPLICATE_TABLE',
+        position: tableNode.key.start,
+      });
+    }
+
+    if (this.implicitTables.has(key)) {
+      throw new TOMLError(`table "${makeDisplayKey(key)}" is already defined by dotted keys`, {
+        code: 'DUPLICATE_TABLE',
+        position: tableNode.key.start,
+      });
     }
 
     this.tables.push(key);
@@ -122,14 +156,20 @@ export class Keystore {
     const header = makeKey(arrayTableNode.key);
 
     if (this.keys.has(header)) {
-      throw new TOMLError();
+      throw new TOMLError(`array of tables "${header}" is already defined as a value`, {
+        code: 'DUPLICATE_TABLE',
+        position: arrayTableNode.key.start,
+      });
     }
 
     // Attempting to redefine a normal table as an array must likewise produce a parse-time error.
     //
     // https://toml.io/en/v1.0.0#array-of-tables
     if (this.tables.includes(header) || this.implicitTables.has(header)) {
-      throw new TOMLError();
+      throw new TOMLError(`array of tables "${header}" is already defined as a table`, {
+        code: 'DUPLICATE_TABLE',
+        position: arrayTableNode.key.start,
+      });
     }
 
     let key = header;
@@ -158,11 +198,17 @@ export class Keystore {
     //
     // https://toml.io/en/v1.0.0#array-of-tables
     if (index === 0 && this.tables.some((table) => table.startsWith(header))) {
-      throw new TOMLError();
+      throw new TOMLError(`array of tables "${header}" must be defined before its sub-tables`, {
+        code: 'INVALID_TABLE_ORDER',
+        position: arrayTableNode.key.start,
+      });
     }
 
     if (this.keys.has(key) || this.tables.includes(key)) {
-      throw new TOMLError();
+      throw new TOMLError(`array of tables "${makeDisplayKey(key)}" is already defined`, {
+        code: 'DUPLICATE_TABLE',
+        position: arrayTableNode.key.start,
+      });
     }
 
     key += `.[${index}]`;
@@ -0,0 +1,559 @@
+import type { Readable, Writable } from 'node:stream';
+
+import type { Position, Range, RootTableNode, ValueNode } from './ast.js';
+import { parseWithDiagnostics, type TOMLVersion } from './decoder.js';
+import { TOMLError } from './errors.js';
+import { format } from './formatter.js';
+import {
+  type Definition,
+  findDefinition,
+  findKeyAt,
+  findValueAt,
+  formatKeyPath,
+  type KeyPath,
+  resolve,
+  startsWithPath,
+} from './resolver.js';
+
+export interface LanguageServerOptions {
+  // The version of the specification to follow, 1.0 by default. Clients may override it with the `version` of their
+  // initialization options.
+  version?: TOMLVersion;
+  // Called on the `exit` notification with the exit code expected by the client, e.g. to end the process.
+  onExit?: (code: number) => void;
+}
+
+// The parts of the Language Server Protocol relied upon. Positions are zero-based and count UTF-16 code units, as
+// columns of the parser do.
+//
+// https://microsoft.github.io/language-server-protocol/specifications/lsp/3.17/specification/
+interface LSPPosition {
+  line: number;
+  character: number;
+}
+
+interface LSPRange {
+  start: LSPPosition;
+  end: LSPPosition;
+}
+
+interface DocumentSymbol {
+  name: string;
+  detail: string;
+  kind: number;
+  range: LSPRange;
+  selectionRange: LSPRange;
+  children: DocumentSymbol[];
+}
+
+interface FoldingRange {
+  startLine: number;
+  endLine: number;
+}
+
+interface TextDocumentPositionParams {
+  textDocument: { uri: string };
+  position: LSPPosition;
+}
+
+interface Message {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method: string;
+  params?: unknown;
+}
+
+class ResponseError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+// https://microsoft.github.io/language-server-protocol/specifications/lsp/3.17/specification/#errorCodes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INTERNAL_ERROR = -32603;
+const SERVER_NOT_INITIALIZED = -32002;
+
+// https://microsoft.github.io/language-server-protocol/specifications/lsp/3.17/specification/#symbolKind
+const SYMBOL_KIND_ARRAY = 18;
+const SYMBOL_KIND_OBJECT = 19;
+
+const DIAGNOSTIC_SEVERITY_ERROR = 1;
+
+const TEXT_DOCUMENT_SYNC_FULL = 1;
+
+const TYPE_NAMES: Record<ValueNode['type'], string> = {
+  STRING: 'string',
+  INTEGER: 'integer',
+  FLOAT: 'float',
+  BOOLEAN: 'boolean',
+  OFFSET_DATE_TIME: 'offset date-time',
+  LOCAL_DATE_TIME: 'local date-time',
+  LOCAL_DATE: 'local date',
+  LOCAL_TIME: 'local time',
+  ARRAY: 'array',
+  INLINE_TABLE: 'inline table',
+};
+
+interface Document {
+  uri: string;
+  text: string;
+  node: RootTableNode;
+  definitions: Definition[];
+}
+
+const toLSPPosition = ({ line, column }: Position): LSPPosition => {
+  return { line: line - 1, character: column - 1 };
+};
+
+const toLSPRange = ({ start, end }: Range): LSPRange => {
+  return { start: toLSPPosition(start), end: toLSPPosition(end) };
+};
+
+const isBefore = (a: LSPPosition, b: LSPPosition) => {
+  return a.line < b.line || (a.line === b.line && a.character < b.character);
+};
+
+const toOffset = (text: string, { line, character }: LSPPosition) => {
+  let offset = 0;
+
+  for (let i = 0; i < line && offset !== -1; i++) {
+    offset = text.indexOf('\n', offset) + 1 || -1;
+  }
+
+  return offset === -1 ? text.length : offset + character;
+};
+
+const getEndPosition = (text: string): LSPPosition => {
+  const lines = text.split('\n');
+
+  return { line: lines.length - 1, character: lines[lines.length - 1].length };
+};
+
+// The server sends no requests, hence every message must be a request or a notification, i.e. hold a method.
+const isMessage = (message: unknown): message is Message => {
+  return (
+    typeof message === 'object' &&
+    message !== null &&
+    !Array.isArray(message) &&
+    typeof (message as Message).method === 'string'
+  );
+};
+
+const getMessageId = (message: unknown) => {
+  const id = typeof message === 'object' && message !== null ? (message as Message).id : undefined;
+
+  return typeof id === 'number' || typeof id === 'string' ? id : null;
+};
+
+const describeDefinition = (definition: Definition | undefined) => {
+  if (definition?.value) {
+    return TYPE_NAMES[definition.value.type];
+  }
+
+  if (definition?.node.type === 'ARRAY_TABLE') {
+    return typeof definition.path[definition.path.length - 1] === 'number' ? 'table in an array of tables' : 'array';
+  }
+
+  return 'table';
+};
+
+// A minimal JSON-RPC 2.0 connection over the base protocol of LSP, i.e. messages preceded by a `Content-Length` header.
+//
+// https://microsoft.github.io/language-server-protocol/specifications/lsp/3.17/specification/#baseProtocol
+class Connection {
+  private buffer = Buffer.alloc(0);
+
+  constructor(
+    input: Readable,
+    private readonly output: Writable,
+    private readonly onMessage: (message: unknown) => void,
+  ) {
+    input.on('data', (chunk: Buffer) => this.receive(chunk));
+  }
+
+  send(message: Record<string, unknown>) {
+    const body = JSON.stringify({ jsonrpc: '2.0', ...message });
+
+    this.output.write(`Content-Length: ${Buffer.byteLength(body, 'utf-8')}\r\n\r\n${body}`);
+  }
+
+  private receive(chunk: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    for (;;) {
+      const headerEnd = this.buffer.indexOf('\r\n\r\n');
+
+      if (headerEnd === -1) {
+        return;
+      }
+
+      const header = this.buffer.subarray(0, headerEnd).toString('ascii');
+      const match = /^Content-Length: *(\d+)$/im.exec(header);
+      const start = headerEnd + 4;
+
+      if (!match) {
+        this.buffer = this.buffer.subarray(start);
+
+        continue;
+      }
+
+      const end = start + parseInt(match[1], 10);
+
+      if (this.buffer.length < end) {
+        return;
+      }
+
+      const body = this.buffer.subarray(start, end).toString('utf-8');
+
+      this.buffer = this.buffer.subarray(end);
+
+      let message: unknown;
+
+      try {
+        message = JSON.parse(body);
+      } catch {
+        this.send({ id: null, error: { code: PARSE_ERROR, message: 'invalid JSON' } });
+
+        continue;
+      }
+
+      this.onMessage(message);
+    }
+  }
+}
+
+// A language server for TOML documents, offering diagnostics, document symbols, hovers, definitions, folding ranges and
+// formatting. Documents are synchronized in full on every change.
+export class LanguageServer {
+  private readonly connection: Connection;
+  private readonly documents = new Map<string, Document>();
+  private version: TOMLVersion | undefined;
+  private isInitialized = false;
+  private isShutDown = false;
+
+  constructor(input: Readable, output: Writable, private readonly options: LanguageServerOptions = {}) {
+    this.connection = new Connection(input, output, (message) => this.handle(message));
+    this.version = options.version;
+  }
+
+  private handle(message: unknown) {
+    if (!isMessage(message)) {
+      this.connection.send({ id: getMessageId(message), error: { code: INVALID_REQUEST, message: 'invalid request' } });
+
+      return;
+    }
+
+    const { id, method, params } = message;
+
+    const isRequest = typeof id !== 'undefined';
+
+    try {
+      const result = this.dispatch(method, params);
+
+      if (isRequest) {
+        this.connection.send({ id, result: result ?? null });
+      }
+    } catch (err) {
+      if (!isRequest) {
+        return;
+      }
+
+      const { code, message } =
+        err instanceof ResponseError
+          ? err
+          : new ResponseError(INTERNAL_ERROR, err instanceof Error ? err.message : String(err));
+
+      this.connection.send({ id, error: { code, message } });
+    }
+  }
+
+  private dispatch(method: string, params: unknown): unknown {
+    if (method === 'exit') {
+      this.options.onExit?.(this.isShutDown ? 0 : 1);
+
+      return null;
+    }
+
+    if (this.isShutDown) {
+      throw new ResponseError(INVALID_REQUEST, 'the server has been shut down');
+    }
+
+    if (method === 'initialize') {
+      return this.initialize(params as { initializationOptions?: { version?: TOMLVersion } });
+    }
+
+    if (!this.isInitialized) {
+      throw new ResponseError(SERVER_NOT_INITIALIZED, 'the server has not been initialized');
+    }
+
+    switch (method) {
+      case 'initialized':
+        return null;
+      case 'shutdown':
+        this.isShutDown = true;
+
+        return null;
+      case 'textDocument/didOpen': {
+        const { textDocument } = params as { textDocument: { uri: string; text: string } };
+
+        return this.update(textDocument.uri, textDocument.text);
+      }
+      case 'textDocument/didChange': {
+        const { textDocument, contentChanges } = params as {
+          textDocument: { uri: string };
+          contentChanges: { text: string }[];
+        };
+
+        return this.update(textDocument.uri, contentChanges[contentChanges.length - 1].text);
+      }
+      case 'textDocument/didClose': {
+        const { textDocument } = params as { textDocument: { uri: string } };
+
+        this.documents.delete(textDocument.uri);
+        this.connection.send({
+          method: 'textDocument/publishDiagnostics',
+          params: { uri: textDocument.uri, diagnostics: [] },
+        });
+
+        return null;
+      }
+      case 'textDocument/documentSymbol':
+        return this.documentSymbols(this.getDocument(params));
+      case 'textDocument/hover':
+        return this.hover(this.getDocument(params), (params as TextDocumentPositionParams).position);
+      case 'textDocument/definition':
+        return this.definition(this.getDocument(params), (params as TextDocumentPositionParams).position);
+      case 'textDocument/foldingRange':
+        return this.foldingRanges(this.getDocument(params));
+      case 'textDocument/formatting': {
+        const { options } = params as { options: { tabSize: number; insertSpaces: boolean } };
+
+        return this.formatting(this.getDocument(params), options);
+      }
+    }
+
+    // Unsupported notifications, e.g. `$/cancelRequest`, are ignored, as only requests get a response.
+    //
+    // https://microsoft.github.io/language-server-protocol/specifications/lsp/3.17/specification/#dollarRequests
+    throw new ResponseError(METHOD_NOT_FOUND, `unsupported method "${method}"`);
+  }
+
+  private initialize(params: { initializationOptions?: { version?: TOMLVersion } }) {
+    this.isInitialized = true;
+    this.version = params.initializationOptions?.version ?? this.version;
+
+    return {
+      capabilities: {
+        textDocumentSync: TEXT_DOCUMENT_SYNC_FULL,
+        documentSymbolProvider: true,
+        hoverProvider: true,
+        definitionProvider: true,
+        foldingRangeProvider: true,
+        documentFormattingProvider: true,
+      },
+      serverInfo: { name: 'toml-nodejs' },
+    };
+  }
+
+  private getDocument(params: unknown) {
+    const { uri } = (params as { textDocument: { uri: string } }).textDocument;
+    const document = this.documents.get(uri);
+
+    if (!document) {
+      throw new ResponseError(INVALID_REQUEST, `unknown document "${uri}"`);
+    }
+
+    return document;
+  }
+
+  // Parses the document once per change, reporting every error along the way.
+  private update(uri: string, text: string) {
+    const { node, diagnostics } = parseWithDiagnostics(text, { version: this.version });
+
+    this.documents.set(uri, { uri, text, node, definitions: resolve(node) });
+
+    this.connection.send({
+      method: 'textDocument/publishDiagnostics',
+      params: {
+        uri,
+        diagnostics: diagnostics.map((err) => {
+          const start = err.position ? toLSPPosition(err.position) : { line: 0, character: 0 };
+
+          return {
+            range: { start, end: { line: start.line, character: start.character + 1 } },
+            severity: DIAGNOSTIC_SEVERITY_ERROR,
+            code: err.code,
+            source: 'toml',
+            message: err.reason,
+          };
+        }),
+      },
+    });
+
+    return null;
+  }
+
+  // Tables and arrays of tables, nested under the closest table whose path their own path starts with.
+  private documentSymbols({ definitions }: Document) {
+    const symbols: DocumentSymbol[] = [];
+    const ancestors: { path: KeyPath; symbol: DocumentSymbol }[] = [];
+
+    for (const definition of definitions) {
+      const { node, path } = definition;
+
+      if ((node.type !== 'TABLE' && node.type !== 'ARRAY_TABLE') || definition.isImplicit) {
+        continue;
+      }
+
+      // Arrays of tables are defined once as an array, then once per element.
+      if (node.type === 'ARRAY_TABLE' && typeof path[path.length - 1] !== 'number') {
+        continue;
+      }
+
+      while (ancestors.length && !startsWithPath(path, ancestors[ancestors.length - 1].path)) {
+        ancestors.pop();
+      }
+
+      const parent = ancestors[ancestors.length - 1];
+      const symbol: DocumentSymbol = {
+        name: formatKeyPath(parent ? path.slice(parent.path.length) : path).replace(/^\./, ''),
+        detail: node.type === 'TABLE' ? 'table' : 'array of tables',
+        kind: node.type === 'TABLE' ? SYMBOL_KIND_OBJECT : SYMBOL_KIND_ARRAY,
+        range: toLSPRange(node),
+        selectionRange: toLSPRange(node.key),
+        children: [],
+      };
+
+      (parent ? parent.symbol.children : symbols).push(symbol);
+
+      // The range of a symbol must contain those of its children.
+      for (const ancestor of ancestors) {
+        if (isBefore(ancestor.symbol.range.end, symbol.range.end)) {
+          ancestor.symbol.range.end = symbol.range.end;
+        }
+      }
+
+      ancestors.push({ path, symbol });
+    }
+
+    return symbols;
+  }
+
+  private hover({ text, definitions }: Document, position: LSPPosition) {
+    const offset = toOffset(text, position);
+    const key = findKeyAt(definitions, offset);
+
+    if (key) {
+      const type = describeDefinition(findDefinition(definitions, key.path));
+
+      return {
+        contents: { kind: 'markdown', value: `\`${formatKeyPath(key.path)}\`: ${type}` },
+        range: toLSPRange(key.key),
+      };
+    }
+
+    const definition = findValueAt(definitions, offset);
+
+    if (!definition?.value) {
+      return null;
+    }
+
+    return {
+      contents: {
+        kind: 'markdown',
+        value: `\`${formatKeyPath(definition.path)}\`: ${TYPE_NAMES[definition.value.type]}`,
+      },
+      range: toLSPRange(definition.value),
+    };
+  }
+
+  // Goes from a key to where the table or value it names is defined, e.g. from `[fruit.apple.texture]` to the dotted
+  // key `apple.color = "red"` under `[fruit]` defining `fruit.apple`.
+  private definition({ uri, text, definitions }: Document, position: LSPPosition) {
+    const key = findKeyAt(definitions, toOffset(text, position));
+
+    if (!key) {
+      return null;
+    }
+
+    const definition = findDefinition(definitions, key.path);
+
+    if (!definition) {
+      return null;
+    }
+
+    return { uri, range: toLSPRange(definition.key ?? definition.node) };
+  }
+
+  // Tables, and arrays, inline tables and strings spanning several lines. The closing bracket of arrays and inline
+  // tables is left out, so that it remains visible.
+  private foldingRanges({ node }: Document) {
+    const ranges: FoldingRange[] = [];
+
+    const add = (start: Position, end: Position) => {
+      if (end.line > start.line) {
+        ranges.push({ startLine: start.line - 1, endLine: end.line - 1 });
+      }
+    };
+
+    const value = (node: ValueNode) => {
+      switch (node.type) {
+        case 'ARRAY':
+          add(node.start, { ...node.end, line: node.end.line - 1 });
+          node.elements.forEach(value);
+
+          break;
+        case 'INLINE_TABLE':
+          add(node.start, { ...node.end, line: node.end.line - 1 });
+          node.elements.forEach((element) => value(element.value));
+
+          break;
+        case 'STRING':
+          add(node.start, node.end);
+
+          break;
+      }
+    };
+
+    for (const element of node.elements) {
+      if (element.type === 'KEY_VALUE_PAIR') {
+        value(element.value);
+
+        continue;
+      }
+
+      add(element.start, element.end);
+
+      element.elements.forEach((keyValuePair) => value(keyValuePair.value));
+    }
+
+    return ranges;
+  }
+
+  // Documents with errors are left as they are, as formatting drops what doesn't parse.
+  private formatting({ text }: Document, options: { tabSize: number; insertSpaces: boolean }) {
+    let formatted: string;
+
+    try {
+      formatted = format(text, {
+        version: this.version,
+        indent: options.insertSpaces ? ' '.repeat(options.tabSize) : '\t',
+      });
+    } catch (err) {
+      if (err instanceof TOMLError) {
+        return null;
+      }
+
+      throw err;
+    }
+
+    if (formatted === text) {
+      return [];
+    }
+
+    return [{ range: { start: { line: 0, character: 0 }, end: getEndPosition(text) }, newText: formatted }];
+  }
+}
@@ -0,0 +1,83 @@
+import type { Range, RootTableNode } from './ast.js';
+import { parse, type ParseOptions } from './decoder.js';
+import {
+  containsOffset,
+  type Definition,
+  findDefinition,
+  findKeyAt,
+  findValueAt,
+  formatKeyPath,
+  type KeyPath,
+  resolve,
+} from './resolver.js';
+
+export { formatKeyPath };
+
+export interface Location {
+  // The key/value pair, table header or element of an array defining the path. Tables defined by headers span their
+  // key/value pairs too.
+  range: Range;
+  // The key naming the last component of the path, absent for elements of arrays.
+  key?: Range;
+  // The value, absent for tables defined by headers or implicitly.
+  value?: Range;
+}
+
+const getDefinitions = (document: string | RootTableNode, options?: ParseOptions) => {
+  return resolve(typeof document === 'string' ? parse(document, options) : document);
+};
+
+const toRange = ({ start, end }: Range): Range => {
+  return { start, end };
+};
+
+// Finds where a key path is defined in a document, given as text or as a syntax tree, e.g. `['products', 1, 'name']`.
+// Tables defined both implicitly and explicitly are located at their header.
+export const locate = (
+  document: string | RootTableNode,
+  path: KeyPath,
+  options?: ParseOptions,
+): Location | undefined => {
+  const definition = findDefinition(getDefinitions(document, options), path);
+
+  if (!definition) {
+    return undefined;
+  }
+
+  return {
+    range: toRange(definition.node),
+    ...(definition.key && { key: toRange(definition.key) }),
+    ...(definition.value && { value: toRange(definition.value) }),
+  };
+};
+
+// Finds the fully resolved key path at an offset of a document, i.e. of the component of a key, of the innermost value,
+// or of the key/value pair or table section it lies within, e.g. `['products', 1, 'name']` within `name = "Nail"`
+// under the second `[[products]]`. Offsets right after a key or value are considered part of it, like cursors.
+export const pathAt = (
+  document: string | RootTableNode,
+  offset: number,
+  options?: ParseOptions,
+): KeyPath | undefined => {
+  const definitions = getDefinitions(document, options);
+
+  const key = findKeyAt(definitions, offset);
+
+  if (key) {
+    return key.path;
+  }
+
+  const value = findValueAt(definitions, offset);
+
+  if (value) {
+    return value.path;
+  }
+
+  // Between the key and the value, or within a section but outside of its key/value pairs. Elements of arrays of tables
+  // are defined after the array, and key/value pairs after their section, hence the last match is the innermost.
+  const isWithin = ({ node, isImplicit }: Definition) => {
+    return !isImplicit && containsOffset(node, offset);
+  };
+
+  return definitions.filter(isWithin).pop()?.path;
+};
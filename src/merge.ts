@@ -0,0 +1,189 @@
+import type { Value } from './normalizer.js';
+import { formatKeyPath, type KeyPath } from './resolver.js';
+import { isTable } from './values.js';
+
+// How a value defined by several documents is merged:
+// - `replace`, by taking the value of the last document;
+// - `merge`, for tables, by merging them key by key, and for arrays of tables, by merging their elements index by
+//   index;
+// - `concat`, for arrays, by concatenating them;
+// - `append`, for arrays of tables, by appending the elements of the last document, or merging a table into the last
+//   element as a `[products.details]` header following `[[products]]` would.
+export type MergeStrategy = 'replace' | 'merge' | 'concat' | 'append';
+
+export interface MergeLayer {
+  // Where the document comes from, e.g. the name of its file, as recorded in the `sources` of the result.
+  source: string;
+  value: Record<string, Value<bigint | number>>;
+}
+
+export interface MergeOptions {
+  // Called for every value defined by several documents, returning the strategy to merge it with, or `undefined` for
+  // the default one: `merge` for tables, `append` for arrays of tables, `replace` otherwise. Strategies that don't
+  // apply to the values, e.g. `concat` for tables, replace them.
+  strategy?: (
+    path: KeyPath,
+    value: Value<bigint | number>,
+    previousValue: Value<bigint | number>,
+  ) => MergeStrategy | undefined;
+}
+
+export interface MergeResult<T> {
+  value: T;
+  // The source of every value, by key path, e.g. `sources.get('products[1].name')`. Tables and arrays combined from
+  // several documents have no single source, their values have.
+  sources: Map<string, string>;
+}
+
+type Table = Record<string, Value<bigint | number>>;
+
+const isArrayOfTables = (value: Value<bigint | number>): value is Table[] => {
+  return Array.isArray(value) && value.length > 0 && value.every((element) => isTable(element));
+};
+
+const getDefaultStrategy = (value: Value<bigint | number>, previousValue: Value<bigint | number>): MergeStrategy => {
+  if (isTable(value) && isTable(previousValue)) {
+    return 'merge';
+  }
+
+  return isArrayOfTables(previousValue) ? 'append' : 'replace';
+};
+
+class Merger {
+  readonly sources = new Map<string, string>();
+
+  constructor(private readonly options: MergeOptions) {}
+
+  merge(layers: MergeLayer[]) {
+    return layers.reduce<Table>((acc, { source, value }) => this.table([], acc, value, source), {});
+  }
+
+  private table(path: KeyPath, previousTable: Table, table: Table, source: string) {
+    const result = { ...previousTable };
+
+    // The table is now combined from several documents.
+    this.sources.delete(formatKeyPath(path));
+
+    for (const [key, value] of Object.entries(table)) {
+      const keyPath = [...path, key];
+
+      result[key] = Object.prototype.hasOwnProperty.call(previousTable, key)
+        ? this.value(keyPath, value, previousTable[key], source)
+        : this.take(keyPath, value, source);
+    }
+
+    return result;
+  }
+
+  private value(
+    path: KeyPath,
+    value: Value<bigint | number>,
+    previousValue: Value<bigint | number>,
+    source: string,
+  ): Value<bigint | number> {
+    const strategy = this.options.strategy?.(path, value, previousValue) ?? getDefaultStrategy(value, previousValue);
+
+    switch (strategy) {
+      case 'merge':
+        if (isTable(value) && isTable(previousValue)) {
+          return this.table(path, previousValue, value, source);
+        }
+
+        if (isArrayOfTables(value) && isArrayOfTables(previousValue)) {
+          const elements: Value<bigint | number>[] = [...previousValue];
+
+          this.sources.delete(formatKeyPath(path));
+
+          value.forEach((element, i) => {
+            elements[i] =
+              i < previousValue.length
+                ? this.table([...path, i], previousValue[i], element, source)
+                : this.take([...path, i], element, source);
+          });
+
+          return elements;
+        }
+
+        break;
+      case 'concat':
+        if (Array.isArray(value) && Array.isArray(previousValue)) {
+          return this.concat(path, value, previousValue, source);
+        }
+
+        break;
+      case 'append':
+        if (isArrayOfTables(previousValue) && isArrayOfTables(value)) {
+          return this.concat(path, value, previousValue, source);
+        }
+
+        if (isArrayOfTables(previousValue) && isTable(value)) {
+          const index = previousValue.length - 1;
+
+          this.sources.delete(formatKeyPath(path));
+
+          return [...previousValue.slice(0, index), this.table([...path, index], previousValue[index], value, source)];
+        }
+
+        break;
+    }
+
+    this.forget(path);
+
+    return this.take(path, value, source);
+  }
+
+  private concat(
+    path: KeyPath,
+    value: Value<bigint | number>[],
+    previousValue: Value<bigint | number>[],
+    source: string,
+  ) {
+    this.sources.delete(formatKeyPath(path));
+
+    value.forEach((element, i) => this.record([...path, previousValue.length + i], element, source));
+
+    return [...previousValue, ...value];
+  }
+
+  private take(path: KeyPath, value: Value<bigint | number>, source: string) {
+    this.record(path, value, source);
+
+    return value;
+  }
+
+  // Records the source of a value taken as a whole, and of everything it contains.
+  private record(path: KeyPath, value: Value<bigint | number>, source: string) {
+    this.sources.set(formatKeyPath(path), source);
+
+    if (Array.isArray(value)) {
+      value.forEach((element, i) => this.record([...path, i], element, source));
+    } else if (isTable(value)) {
+      for (const [key, element] of Object.entries(value)) {
+        this.record([...path, key], element, source);
+      }
+    }
+  }
+
+  // Drops the sources of a replaced value, including those of the values it contained, e.g. `a[0]` and `a.b` for `a`.
+  private forget(path: KeyPath) {
+    const key = formatKeyPath(path);
+
+    for (const other of this.sources.keys()) {
+      if (other === key || other.startsWith(`${key}.`) || other.startsWith(`${key}[`)) {
+        this.sources.delete(other);
+      }
+    }
+  }
+}
+
+// Layers decoded documents, e.g. defaults, then settings of an environment, then local overrides, each one taking
+// precedence over the previous ones. The documents are left untouched.
+export const mergeDocuments = <T extends Record<string, unknown> = Record<string, Value>>(
+  layers: MergeLayer[],
+  options: MergeOptions = {},
+): MergeResult<T> => {
+  const merger = new Merger(options);
+  const value = merger.merge(layers) as T;
+
+  return { value, sources: merger.sources };
+};
@@ -16,38 +16,70 @@ import type {
   RootTableNode,
   StringNode,
   TableNode,
+  ValueNode,
 } from './ast.js';
-import { LocalDate, LocalDateTime, LocalTime } from './types.js';
+import { LocalDate, LocalDateTime, LocalTime, OffsetDateTime } from './types.js';
 import { TOMLError } from './errors.js';
+import { HeaderResolver, type KeyPath } from './resolver.js';
 
-export type Value =
+// Integers are decoded as `bigint` by default, see `IntegerMode`.
+export type Value<I extends bigint | number = bigint> =
   | string
-  | bigint
+  | I
   | number
   | boolean
   | Date
+  | OffsetDateTime
   | LocalDateTime
   | LocalDate
   | LocalTime
-  | Value[]
-  | { [K: string]: Value };
+  | Value<I>[]
+  | { [K: string]: Value<I> };
 
-type NormalizedNode<T extends Node> = T extends KeyNode
+// How integers are represented:
+// - `bigint` always, so that every 64-bit integer is represented losslessly;
+// - `number` always, at the risk of losing precision beyond `Number.MAX_SAFE_INTEGER`;
+// - `safe`, as a `number`, rejecting integers beyond `Number.MAX_SAFE_INTEGER`.
+export type IntegerMode = 'bigint' | 'number' | 'safe';
+
+export type IntegerType<M extends IntegerMode> = M extends 'bigint' ? bigint : number;
+
+// How offset date-times are represented:
+// - `date`, as a `Date`, losing the offset and any precision beyond milliseconds;
+// - `offset-date-time`, as an `OffsetDateTime`, keeping both.
+export type OffsetDateTimeMode = 'date' | 'offset-date-time';
+
+export type Reviver = (keyPath: KeyPath, value: unknown, node: ValueNode) => unknown;
+
+export interface NormalizeOptions<M extends IntegerMode = IntegerMode> {
+  integers?: M;
+  offsetDateTimes?: OffsetDateTimeMode;
+  // Called for every value of a key/value pair and every element of an array, innermost first, like the reviver of
+  // `JSON.parse`. The value is replaced with the result, or removed if it's `undefined`.
+  reviver?: Reviver;
+  // Called for every value of the given type, before the reviver. `onInteger` and `onOffsetDateTime` receive the
+  // value losslessly, regardless of the `integers` and `offsetDateTimes` options.
+  onString?: (value: string, node: StringNode) => unknown;
+  onInteger?: (value: bigint, node: IntegerNode) => unknown;
+  onFloat?: (value: number, node: FloatNode) => unknown;
+  onBoolean?: (value: boolean, node: BooleanNode) => unknown;
+  onOffsetDateTime?: (value: OffsetDateTime, node: OffsetDateTimeNode) => unknown;
+  onLocalDateTime?: (value: LocalDateTime, node: LocalDateTimeNode) => unknown;
+  onLocalDate?: (value: LocalDate, node: LocalDateNode) => unknown;
+  onLocalTime?: (value: LocalTime, node: LocalTimeNode) => unknown;
+}
+
+type NormalizedNode<T extends Node, I extends bigint | number> = T extends KeyNode
   ? string[]
   : T extends RootTableNode | KeyValuePairNode | TableNode | ArrayTableNode | InlineTableNode
-  ? Record<string, Value>
+  ? Record<string, Value<I>>
   : T extends ArrayNode
-  ? Value[]
-  : T extends
-      | BareNode
-      | StringNode
-      | IntegerNode
-      | FloatNode
-      | BooleanNode
-      | OffsetDateTimeNode
-      | LocalDateTimeNode
-      | LocalDateNode
-      | LocalTimeNode
+  ? Value<I>[]
+  : T extends IntegerNode
+  ? I
+  : T extends OffsetDateTimeNode
+  ? Date | OffsetDateTime
+  : T extends BareNode | StringNode | FloatNode | BooleanNode | LocalDateTimeNode | LocalDateNode | LocalTimeNode
   ? T['value']
   : never;
 
@@ -56,7 +88,12 @@ const isKeyValuePair = (value: unknown): value is Record<string, Value> => {
     return false;
   }
 
-  if (value instanceof LocalDateTime || value instanceof LocalDate || value instanceof LocalTime) {
+  if (
+    value instanceof OffsetDateTime ||
+    value instanceof LocalDateTime ||
+    value instanceof LocalDate ||
+    value instanceof LocalTime
+  ) {
     return false;
   }
 
@@ -81,7 +118,7 @@ const merge = (...values: Record<string, Value>[]) => {
 
         acc[key] = [...prevValue.slice(0, -1), merge(prevValueLastElement, nextValue)];
       } else if (typeof prevValue !== 'undefined') {
-        throw new TOMLError();
+        throw new TOMLError(`duplicate key "${key}"`, { code: 'DUPLICATE_KEY' });
       } else {
         acc[key] = nextValue;
       }
@@ -105,49 +142,121 @@ const objectify = (key: string[], value: Value) => {
   return initialValue;
 };
 
-export const normalize = <T extends Node>(node: T): NormalizedNode<T> => {
+const normalizeInteger = (node: IntegerNode, mode: IntegerMode) => {
+  if (mode === 'bigint') {
+    return node.value;
+  }
+
+  const value = Number(node.value);
+
+  if (mode === 'safe' && !Number.isSafeInteger(value)) {
+    throw new TOMLError(`integer ${node.value} cannot be represented as a number losslessly`, {
+      code: 'INTEGER_OUT_OF_RANGE',
+      position: node.start,
+    });
+  }
+
+  return value;
+};
+
+const normalizeScalar = (node: Exclude<ValueNode, ArrayNode | InlineTableNode>, options: NormalizeOptions) => {
+  switch (node.type) {
+    case 'STRING':
+      return options.onString ? options.onString(node.value, node) : node.value;
+    case 'INTEGER':
+      return options.onInteger
+        ? options.onInteger(node.value, node)
+        : normalizeInteger(node, options.integers ?? 'bigint');
+    case 'FLOAT':
+      return options.onFloat ? options.onFloat(node.value, node) : node.value;
+    case 'BOOLEAN':
+      return options.onBoolean ? options.onBoolean(node.value, node) : node.value;
+    case 'OFFSET_DATE_TIME':
+      if (options.onOffsetDateTime) {
+        return options.onOffsetDateTime(node.value, node);
+      }
+
+      return options.offsetDateTimes === 'offset-date-time' ? node.value : node.value.toDate();
+    case 'LOCAL_DATE_TIME':
+      return options.onLocalDateTime ? options.onLocalDateTime(node.value, node) : node.value;
+    case 'LOCAL_DATE':
+      return options.onLocalDate ? options.onLocalDate(node.value, node) : node.value;
+    case 'LOCAL_TIME':
+      return options.onLocalTime ? options.onLocalTime(node.value, node) : node.value;
+  }
+};
+
+// Key paths are only tracked for the reviver, the path of a node being that of the table or array it belongs to.
+const normalizeNode = (node: Node, options: NormalizeOptions, path: KeyPath): unknown => {
   switch (node.type) {
     case 'ROOT_TABLE': {
-      const elements = node.elements.map((element) => normalize(element));
+      const headers = new HeaderResolver();
+
+      const elements = node.elements.map((element) => {
+        if (element.type === 'KEY_VALUE_PAIR') {
+          return normalizeNode(element, options, path);
+        }
+
+        const header = element.key.keys.map((key) => key.value);
+
+        return normalizeNode(element, options, headers.resolve(header, element.type === 'ARRAY_TABLE'));
+      });
 
-      return merge(...elements) as NormalizedNode<T>;
+      return merge(...(elements as Record<string, Value>[]));
     }
     case 'KEY':
-      return node.keys.map((key) => normalize(key)) as NormalizedNode<T>;
+      return node.keys.map((key) => key.value);
     case 'KEY_VALUE_PAIR': {
-      const key = normalize(node.key);
-      const value = normalize(node.value);
+      const key = node.key.keys.map((key) => key.value);
+      const value = normalizeNode(node.value, options, [...path, ...key]);
 
-      return objectify(key, value) as NormalizedNode<T>;
+      // Removed by the reviver.
+      if (typeof value === 'undefined') {
+        return {};
+      }
+
+      return objectify(key, value as Value);
     }
     case 'TABLE': {
-      const key = normalize(node.key);
-      const elements = node.elements.map((element) => normalize(element));
+      const key = node.key.keys.map((key) => key.value);
+      const elements = node.elements.map((element) => normalizeNode(element, options, path));
 
-      return objectify(key, merge(...elements)) as NormalizedNode<T>;
+      return objectify(key, merge(...(elements as Record<string, Value>[])));
     }
     case 'ARRAY_TABLE': {
-      const key = normalize(node.key);
-      const elements = node.elements.map((element) => normalize(element));
+      const key = node.key.keys.map((key) => key.value);
+      const elements = node.elements.map((element) => normalizeNode(element, options, path));
 
-      return objectify(key, [merge(...elements)]) as NormalizedNode<T>;
+      return objectify(key, [merge(...(elements as Record<string, Value>[]))]);
     }
     case 'INLINE_TABLE': {
-      const elements = node.elements.map((element) => normalize(element));
+      const elements = node.elements.map((element) => normalizeNode(element, options, path));
+      const value = merge(...(elements as Record<string, Value>[]));
 
-      return merge(...elements) as NormalizedNode<T>;
+      return options.reviver ? options.reviver(path, value, node) : value;
+    }
+    case 'ARRAY': {
+      const elements = node.elements
+        .map((element, i) => normalizeNode(element, options, [...path, i]))
+        .filter((element) => typeof element !== 'undefined');
+
+      return options.reviver ? options.reviver(path, elements, node) : elements;
     }
-    case 'ARRAY':
-      return node.elements.map((element) => normalize(element)) as NormalizedNode<T>;
     case 'BARE':
-    case 'STRING':
-    case 'INTEGER':
-    case 'FLOAT':
-    case 'BOOLEAN':
-    case 'OFFSET_DATE_TIME':
-    case 'LOCAL_DATE_TIME':
-    case 'LOCAL_DATE':
-    case 'LOCAL_TIME':
-      return node.value as NormalizedNode<T>;
+      return node.value;
+    default: {
+      const value = normalizeScalar(node, options);
+
+      return options.reviver ? options.reviver(path, value, node) : value;
+    }
   }
 };
+
+// Tables defined by headers or dotted keys aren't passed to the reviver, as they may be spread over several sections of
+// the document.
+export const normalize = <T extends Node, M extends IntegerMode = 'bigint'>(
+  node: T,
+  options: NormalizeOptions<M> = {},
+): NormalizedNode<T, IntegerType<M>> => {
+  return normalizeNode(node, options, []) as NormalizedNode<T, IntegerType<M>>;
+};
@@ -1,4 +1,4 @@
-import { Tokenizer } from './tokenizer.js';
+import { Tokenizer, type Token, type TOMLVersion } from './tokenizer.js';
 import { TOMLError } from './errors.js';
 import type {
   ArrayNode,
@@ -8,6 +8,7 @@ import type {
   InlineTableNode,
   IntegerNode,
   KeyNode,
+  Position,
   KeyValuePairNode,
   LocalDateNode,
   LocalDateTimeNode,
@@ -15,9 +16,10 @@ import type {
   OffsetDateTimeNode,
   RootTableNode,
   TableNode,
+  TriviaNode,
   ValueNode,
 } from './ast.js';
-import { LocalDate, LocalDateTime, LocalTime } from './types.js';
+import { LocalDate, LocalDateTime, LocalTime, OffsetDateTime } from './types.js';
 import { isBinary, isDecimal, isHexadecimal, isOctal } from './utils.js';
 import { Keystore } from './keystore.js';
 
@@ -46,14 +48,14 @@ const parseInteger = (
 
   if (value[i] === '+' || value[i] === '-') {
     if (!isSignAllowed) {
-      throw new TOMLError();
+      throw new TOMLError(`unexpected sign in "${value}"`, { code: 'INVALID_NUMBER' });
     }
 
     i++;
   }
 
   if (!areLeadingZerosAllowed && value[i] === '0' && i + 1 !== value.length) {
-    throw new TOMLError();
+    throw new TOMLError(`leading zeros are not allowed in "${value}"`, { code: 'INVALID_NUMBER' });
   }
 
   // For large numbers, you may use underscores between digits to enhance readability.
@@ -67,7 +69,7 @@ const parseInteger = (
 
     if (char === '_') {
       if (!isUnderscoreAllowed) {
-        throw new TOMLError();
+        throw new TOMLError(`underscores must be surrounded by digits in "${value}"`, { code: 'INVALID_NUMBER' });
       }
 
       isUnderscoreAllowed = false;
@@ -83,14 +85,14 @@ const parseInteger = (
   }
 
   if (!isUnderscoreAllowed) {
-    throw new TOMLError();
+    throw new TOMLError(`invalid number "${value}"`, { code: 'INVALID_NUMBER' });
   }
 
   const int = value.slice(0, i).replaceAll('_', '');
   const unparsed = value.slice(i);
 
   if (!isUnparsedAllowed && unparsed !== '') {
-    throw new TOMLError();
+    throw new TOMLError(`invalid number "${value}"`, { code: 'INVALID_NUMBER' });
   }
 
   return { int, unparsed };
@@ -99,6 +101,7 @@ const parseInteger = (
 // Arbitrary 64-bit signed integers (from −2^63 to 2^63−1) should be accepted and handled losslessly.
 //
 // https://toml.io/en/v1.0.0#integer
+const MIN_INTEGER = -(2n ** (64n - 1n));
 const MAX_INTEGER = 2n ** (64n - 1n) - 1n;
 
 const parseBigInt = (value: string, radix: 10 | 16 | 8 | 2) => {
@@ -107,67 +110,304 @@ const parseBigInt = (value: string, radix: 10 | 16 | 8 | 2) => {
   try {
     int = BigInt(`${RADIX_PREFIXES[radix]}${value}`);
   } catch {
-    throw new TOMLError();
+    throw new TOMLError(`invalid integer "${value}"`, { code: 'INVALID_NUMBER' });
   }
 
   // If an integer cannot be represented losslessly, an error must be thrown.
   //
   // https://toml.io/en/v1.0.0#integer
-  if (int > MAX_INTEGER) {
-    throw new TOMLError();
+  if (int < MIN_INTEGER || int > MAX_INTEGER) {
+    throw new TOMLError(`integer ${int} is out of the 64-bit range`, { code: 'INTEGER_OUT_OF_RANGE' });
   }
 
   return int;
 };
 
-const parseDate = (value: string) => {
-  try {
-    return new Date(value);
-  } catch {
-    throw new TOMLError();
-  }
-};
+type TriviaToken = Extract<Token, { type: TriviaNode['type'] }>;
+
+export interface ParseOptions {
+  // Attaches comments, whitespace and the original spelling of values to the nodes, so that printing the tree
+  // reproduces the input byte-for-byte.
+  cst?: boolean;
+  // The version of the specification to follow, 1.0 by default.
+  version?: TOMLVersion;
+}
 
 export class Parser {
   private readonly tokenizer: Tokenizer;
   private readonly keystore: Keystore;
   private readonly rootTableNode: RootTableNode;
   private tableNode: RootTableNode | TableNode | ArrayTableNode;
-
-  constructor(input: string) {
-    this.tokenizer = new Tokenizer(input);
-    this.keystore = new Keystore();
-    this.rootTableNode = { type: 'ROOT_TABLE', elements: [] };
+  private trivia: TriviaNode[] = [];
+  // The arrays, and inline tables as of TOML 1.1, being parsed, i.e. the brackets that may span lines, outermost first.
+  private brackets: { name: string; start: Position }[] = [];
+
+  // A document may be parsed piece by piece, by parsers sharing a keystore, each starting where the previous one left
+  // off.
+  constructor(
+    private readonly input: string,
+    private readonly options: ParseOptions = {},
+    private readonly origin: Position = { offset: 0, line: 1, column: 1 },
+    keystore = new Keystore(),
+  ) {
+    this.tokenizer = new Tokenizer(input, origin, options.version);
+    this.keystore = keystore;
+    this.rootTableNode = {
+      type: 'ROOT_TABLE',
+      elements: [],
+      start: this.tokenizer.position(),
+      end: this.tokenizer.position(),
+    };
     this.tableNode = this.rootTableNode;
   }
 
   parse() {
     for (;;) {
-      const node = this.expression();
+      const statement = this.statement();
 
-      if (!node) {
+      if (!statement) {
         break;
       }
 
-      this.tokenizer.take('WHITESPACE');
-      this.tokenizer.take('COMMENT');
+      this.register(statement.node);
+      this.append(statement.node);
+    }
+
+    return this.finish();
+  }
 
-      this.tokenizer.assert('NEWLINE', 'EOF');
+  // Parses the whole input like `parse`, but collects the errors instead of throwing the first one. An invalid
+  // expression is skipped up to the end of its line, or of the array it spans, or up to the next table header at the
+  // start of a line, or key/value pair at the start of a line within a bracket left open. An expression conflicting
+  // with those before it is left out of the tree, as are the key/value pairs following a table header left out.
+  parseWithRecovery() {
+    const errors: TOMLError[] = [];
 
-      this.keystore.addNode(node);
+    let isTableLeftOut = false;
 
-      if (node.type === 'ARRAY_TABLE' || node.type === 'TABLE') {
-        this.tableNode = node;
+    for (;;) {
+      let statement: ReturnType<Parser['statement']>;
+      let start = this.tokenizer.position();
+      let isTable = false;
 
-        this.rootTableNode.elements.push(node);
-      } else {
-        this.tableNode.elements.push(node);
+      try {
+        this.takeCommentsAndNewlines();
+
+        start = this.tokenizer.position();
+        isTable = this.tokenizer.peek().type === 'LEFT_SQUARE_BRACKET';
+        statement = this.statement();
+      } catch (err) {
+        if (!(err instanceof TOMLError)) {
+          throw err;
+        }
+
+        const [bracket] = this.brackets;
+
+        // An error on a table header or key/value pair following a bracket that isn't closed is reported at the
+        // bracket, e.g. for `a = [` followed by `[table]`, where the header is read as an element of the array.
+        if (this.recover(err.position, start) && bracket) {
+          errors.push(this.tokenizer.error(`unterminated ${bracket.name}`, 'UNEXPECTED_TOKEN', bracket.start));
+        } else {
+          errors.push(err);
+        }
+
+        isTableLeftOut ||= isTable;
+
+        continue;
+      }
+
+      if (!statement) {
+        break;
       }
+
+      const { node } = statement;
+
+      if (node.type === 'KEY_VALUE_PAIR' && isTableLeftOut) {
+        continue;
+      }
+
+      try {
+        this.register(node);
+      } catch (err) {
+        if (!(err instanceof TOMLError)) {
+          throw err;
+        }
+
+        errors.push(err);
+
+        isTableLeftOut ||= node.type !== 'KEY_VALUE_PAIR';
+
+        continue;
+      }
+
+      isTableLeftOut &&= node.type === 'KEY_VALUE_PAIR';
+
+      this.append(node);
+    }
+
+    return { node: this.finish(), errors };
+  }
+
+  // Parses the next expression along with the rest of its line, or returns `null` at the end of the input. An
+  // expression not followed by a newline may be incomplete if the input is only a part of the document.
+  statement() {
+    const node = this.expression();
+
+    if (!node) {
+      return null;
+    }
+
+    this.takeTrivia('WHITESPACE');
+    this.takeTrivia('COMMENT');
+
+    const isTerminated = this.takeNewlineOrEOF();
+
+    Object.assign(node, this.flushTrivia('trailing'));
+
+    return { node, end: this.tokenizer.position(), isTerminated };
+  }
+
+  // Parses the input as a key on its own, e.g. a dotted key given on the command line.
+  parseKey() {
+    const key = this.key();
+
+    this.tokenizer.assert('EOF');
+
+    return key;
+  }
+
+  // Parses the input as a value on its own, e.g. a value given in an environment variable.
+  parseValue() {
+    const value = this.value();
+
+    this.tokenizer.assert('EOF');
+
+    return value;
+  }
+
+  // Whether the end of the input has been read, in which case an error may be due to an expression being cut short.
+  isEndReached() {
+    return this.tokenizer.isEndReached();
+  }
+
+  // Checks the expression against those parsed before, e.g. for duplicate keys.
+  register(node: KeyValuePairNode | TableNode | ArrayTableNode) {
+    this.locate(node.start, () => this.keystore.addNode(node));
+  }
+
+  private append(node: KeyValuePairNode | TableNode | ArrayTableNode) {
+    if (node.type === 'ARRAY_TABLE' || node.type === 'TABLE') {
+      this.tableNode = node;
+
+      this.rootTableNode.elements.push(node);
+    } else {
+      this.tableNode.elements.push(node);
+      this.tableNode.end = node.end;
     }
+  }
+
+  private finish() {
+    this.rootTableNode.end = this.tokenizer.position();
+
+    Object.assign(this.rootTableNode, this.flushTrivia('closing'));
 
     return this.rootTableNode;
   }
 
+  // Skips what is left of an expression after an error, up to the next one. Returns whether it stopped at a table
+  // header or key/value pair on a line of the expression, e.g. read as an element of an array missing its closing
+  // bracket, which starts the next expression whatever the brackets left open.
+  private recover(position: Position | undefined, start: Position) {
+    let depth = this.brackets.length;
+
+    this.brackets = [];
+    this.trivia = [];
+
+    if (position && position.offset < this.tokenizer.position().offset) {
+      this.tokenizer.seek(position);
+    }
+
+    if (position && position.line > start.line) {
+      const current = this.tokenizer.position();
+
+      this.tokenizer.seek({ offset: position.offset - position.column + 1, line: position.line, column: 1 });
+      this.tokenizer.take('WHITESPACE');
+
+      if (this.isTableHeaderNext() || (depth > 0 && this.isKeyValuePairNext())) {
+        return true;
+      }
+
+      this.tokenizer.seek(current);
+    }
+
+    if (this.tokenizer.position().column === 1 && this.isTableHeaderNext()) {
+      return false;
+    }
+
+    for (;;) {
+      let token: Token;
+
+      try {
+        token = this.tokenizer.peek();
+      } catch {
+        this.tokenizer.skip();
+
+        continue;
+      }
+
+      this.tokenizer.next();
+
+      switch (token.type) {
+        case 'EOF':
+          return false;
+        case 'LEFT_SQUARE_BRACKET':
+          depth++;
+
+          break;
+        case 'RIGHT_SQUARE_BRACKET':
+          depth--;
+
+          break;
+        case 'LEFT_CURLY_BRACKET':
+          depth += this.options.version === '1.1' ? 1 : 0;
+
+          break;
+        case 'RIGHT_CURLY_BRACKET':
+          depth -= this.options.version === '1.1' ? 1 : 0;
+
+          break;
+        case 'NEWLINE':
+          if (depth <= 0 || this.isTableHeaderNext()) {
+            return false;
+          }
+      }
+    }
+  }
+
+  private isTableHeaderNext() {
+    try {
+      return this.tokenizer.peek().type === 'LEFT_SQUARE_BRACKET';
+    } catch {
+      return false;
+    }
+  }
+
+  // Whether a key followed by `=` comes next, e.g. `c =` on the line after `b = [`, leaving the position unchanged.
+  private isKeyValuePairNext() {
+    const position = this.tokenizer.position();
+
+    try {
+      this.key();
+
+      return this.tokenizer.peek().type === 'EQUALS';
+    } catch {
+      return false;
+    } finally {
+      this.tokenizer.seek(position);
+      this.trivia = [];
+    }
+  }
+
   private expression() {
     this.takeCommentsAndNewlines();
 
@@ -184,7 +424,8 @@ export class Parser {
   }
 
   private table(): ArrayTableNode | TableNode {
-    this.tokenizer.next();
+    const leading = this.flushTrivia('leading');
+    const { start } = this.tokenizer.next();
 
     const isArrayTable = this.tokenizer.take('LEFT_SQUARE_BRACKET');
     const key = this.key();
@@ -195,89 +436,128 @@ export class Parser {
       this.tokenizer.assert('RIGHT_SQUARE_BRACKET');
     }
 
-    return { type: isArrayTable ? 'ARRAY_TABLE' : 'TABLE', key, elements: [] };
+    return {
+      type: isArrayTable ? 'ARRAY_TABLE' : 'TABLE',
+      key,
+      elements: [],
+      start,
+      end: this.tokenizer.position(),
+      ...leading,
+    };
   }
 
   private key() {
-    const keyNode: KeyNode = { type: 'KEY', keys: [] };
+    const keyNode: KeyNode = {
+      type: 'KEY',
+      keys: [],
+      start: this.tokenizer.position(),
+      end: this.tokenizer.position(),
+    };
 
     do {
-      this.tokenizer.take('WHITESPACE');
+      this.takeTrivia('WHITESPACE');
 
+      const leading = this.flushTrivia('leading');
       const token = this.tokenizer.next();
 
       switch (token.type) {
         case 'BARE':
-          keyNode.keys.push({ type: 'BARE', value: token.value });
+          keyNode.keys.push({ type: 'BARE', value: token.value, start: token.start, end: token.end, ...leading });
 
           break;
         case 'STRING':
           if (token.isMultiline) {
-            throw new TOMLError();
+            throw this.tokenizer.error('multiline strings are not allowed as keys', 'INVALID_KEY', token.start);
           }
 
-          keyNode.keys.push({ type: 'STRING', value: token.value });
+          keyNode.keys.push({
+            type: 'STRING',
+            value: token.value,
+            start: token.start,
+            end: token.end,
+            ...this.raw(token.start, token.end),
+            ...leading,
+          });
 
           break;
         default:
-          throw new TOMLError();
+          throw this.tokenizer.unexpected(token, 'a key');
       }
 
-      this.tokenizer.take('WHITESPACE');
+      this.takeTrivia('WHITESPACE');
+
+      Object.assign(keyNode.keys[keyNode.keys.length - 1], this.flushTrivia('trailing'));
     } while (this.tokenizer.take('PERIOD'));
 
+    keyNode.start = keyNode.keys[0].start;
+    keyNode.end = keyNode.keys[keyNode.keys.length - 1].end;
+
     return keyNode;
   }
 
   private keyValuePair(): KeyValuePairNode {
+    const leading = this.flushTrivia('leading');
     const key = this.key();
 
     this.tokenizer.assert('EQUALS');
-    this.tokenizer.take('WHITESPACE');
+    this.takeTrivia('WHITESPACE');
 
     const value = this.value();
 
-    return { type: 'KEY_VALUE_PAIR', key, value };
+    return { type: 'KEY_VALUE_PAIR', key, value, start: key.start, end: value.end, ...leading };
   }
 
   private value(): ValueNode {
+    const leading = this.flushTrivia('leading');
+    const node = this.valueWithoutTrivia();
+
+    if (node.type !== 'ARRAY' && node.type !== 'INLINE_TABLE') {
+      Object.assign(node, this.raw(node.start, node.end));
+    }
+
+    return Object.assign(node, leading);
+  }
+
+  private valueWithoutTrivia(): ValueNode {
     const token = this.tokenizer.next();
 
     switch (token.type) {
       case 'STRING':
-        return { type: 'STRING', value: token.value };
+        return { type: 'STRING', value: token.value, start: token.start, end: token.end };
       case 'BARE':
-        return this.booleanOrNumberOrDateOrDateTimeOrTime(token.value);
+        return this.locate(token.start, () => this.booleanOrNumberOrDateOrDateTimeOrTime(token.value, token.start));
       case 'PLUS':
-        return this.plus();
+        return this.locate(token.start, () => this.plus(token.start));
       case 'LEFT_SQUARE_BRACKET':
-        return this.array();
+        return this.array(token.start);
       case 'LEFT_CURLY_BRACKET':
-        return this.inlineTable();
+        return this.inlineTable(token.start);
       default:
-        throw new TOMLError();
+        throw this.tokenizer.unexpected(token, 'a value');
     }
   }
 
   private booleanOrNumberOrDateOrDateTimeOrTime(
     value: string,
+    start: Position,
   ): BooleanNode | OffsetDateTimeNode | LocalDateTimeNode | LocalDateNode | LocalTimeNode | IntegerNode | FloatNode {
     if (value === 'true' || value === 'false') {
-      return { type: 'BOOLEAN', value: value === 'true' };
+      return { type: 'BOOLEAN', value: value === 'true', start, end: this.tokenizer.position() };
     }
 
     if (value.includes('-', 1) && !value.includes('e-') && !value.includes('E-')) {
-      return this.dateOrDateTime(value);
+      return this.dateOrDateTime(value, start);
     }
 
     if (this.tokenizer.peek().type === 'COLON') {
-      return this.time(value);
+      return this.time(value, start);
     }
 
-    return this.number(value);
+    return this.number(value, start);
   }
 
-  private dateOrDateTime(value: string): OffsetDateTimeNode | LocalDateTimeNode | LocalDateNode {
+  private dateOrDateTime(value: string, start: Position): OffsetDateTimeNode | LocalDateTimeNode | LocalDateNode {
+    const end = this.tokenizer.position();
     const token = this.tokenizer.peek();
 
     // For the sake of readability, you may replace the T delimiter between date and time
@@ -287,31 +567,42 @@ export class Parser {
     if (token.type === 'WHITESPACE' && token.value === ' ') {
       this.tokenizer.next();
 
-      const token = this.tokenizer.peek();
+      const nextToken = this.tokenizer.peek();
+
+      if (nextToken.type !== 'BARE') {
+        // The space turned out not to be a delimiter, but whitespace following the date.
+        this.pushTrivia(token);
 
-      if (token.type !== 'BARE') {
-        return { type: 'LOCAL_DATE', value: LocalDate.fromString(value) };
+        return { type: 'LOCAL_DATE', value: LocalDate.fromString(value), start, end };
       }
 
       this.tokenizer.next();
 
       value += 'T';
-      value += token.value;
+      value += nextToken.value;
     }
 
     if (!value.includes('T') && !value.includes('t')) {
-      return { type: 'LOCAL_DATE', value: LocalDate.fromString(value) };
+      return { type: 'LOCAL_DATE', value: LocalDate.fromString(value), start, end };
     }
 
-    const tokens = this.tokenizer.sequence('COLON', 'BARE', 'COLON', 'BARE');
+    const seconds = this.minutesAndSeconds();
 
-    value += tokens.reduce((prevValue, token) => prevValue + token.value, '');
+    value += seconds;
 
-    if (tokens[tokens.length - 1].value.endsWith('Z')) {
-      return { type: 'OFFSET_DATE_TIME', value: parseDate(value) };
+    // Per [...] ISO8601, the [...] "Z" characters in this syntax may alternatively be lower case [...] "z".
+    //
+    // https://datatracker.ietf.org/doc/html/rfc3339#section-5.6
+    if (/[zZ]$/.test(seconds)) {
+      return {
+        type: 'OFFSET_DATE_TIME',
+        value: OffsetDateTime.fromString(value),
+        start,
+        end: this.tokenizer.position(),
+      };
     }
 
-    if (tokens[tokens.length - 1].value.includes('-')) {
+    if (seconds.includes('-')) {
       this.tokenizer.assert('COLON');
 
       const token = this.tokenizer.expect('BARE');
@@ -319,7 +610,12 @@ export class Parser {
       value += ':';
       value += token.value;
 
-      return { type: 'OFFSET_DATE_TIME', value: parseDate(value) };
+      return {
+        type: 'OFFSET_DATE_TIME',
+        value: OffsetDateTime.fromString(value),
+        start,
+        end: this.tokenizer.position(),
+      };
     }
 
     switch (this.tokenizer.peek().type) {
@@ -331,7 +627,12 @@ export class Parser {
         value += '+';
         value += tokens.reduce((prevValue, token) => prevValue + token.value, '');
 
-        return { type: 'OFFSET_DATE_TIME', value: parseDate(value) };
+        return {
+          type: 'OFFSET_DATE_TIME',
+          value: OffsetDateTime.fromString(value),
+          start,
+          end: this.tokenizer.position(),
+        };
       }
       case 'PERIOD': {
         this.tokenizer.next();
@@ -341,8 +642,13 @@ export class Parser {
         value += '.';
         value += token.value;
 
-        if (token.value.endsWith('Z')) {
-          return { type: 'OFFSET_DATE_TIME', value: parseDate(value) };
+        if (/[zZ]$/.test(token.value)) {
+          return {
+            type: 'OFFSET_DATE_TIME',
+            value: OffsetDateTime.fromString(value),
+            start,
+            end: this.tokenizer.position(),
+          };
         }
 
         if (token.value.includes('-')) {
@@ -353,7 +659,12 @@ export class Parser {
           value += ':';
           value += token.value;
 
-          return { type: 'OFFSET_DATE_TIME', value: parseDate(value) };
+          return {
+            type: 'OFFSET_DATE_TIME',
+            value: OffsetDateTime.fromString(value),
+            start,
+            end: this.tokenizer.position(),
+          };
         }
 
         if (this.tokenizer.take('PLUS')) {
@@ -362,20 +673,23 @@ export class Parser {
           value += '+';
           value += tokens.reduce((prevValue, token) => prevValue + token.value, '');
 
-          return { type: 'OFFSET_DATE_TIME', value: parseDate(value) };
+          return {
+            type: 'OFFSET_DATE_TIME',
+            value: OffsetDateTime.fromString(value),
+            start,
+            end: this.tokenizer.position(),
+          };
         }
 
         break;
       }
     }
 
-    return { type: 'LOCAL_DATE_TIME', value: LocalDateTime.fromString(value) };
+    return { type: 'LOCAL_DATE_TIME', value: LocalDateTime.fromString(value), start, end: this.tokenizer.position() };
   }
 
-  private time(value: string): LocalTimeNode {
-    const tokens = this.tokenizer.sequence('COLON', 'BARE', 'COLON', 'BARE');
-
-    value += tokens.reduce((prevValue, token) => prevValue + token.value, '');
+  private time(value: string, start: Position): LocalTimeNode {
+    value += this.minutesAndSeconds();
 
     if (this.tokenizer.take('PERIOD')) {
       const token = this.tokenizer.expect('BARE');
@@ -384,62 +698,87 @@ export class Parser {
       value += token.value;
     }
 
-    return { type: 'LOCAL_TIME', value: LocalTime.fromString(value) };
+    return { type: 'LOCAL_TIME', value: LocalTime.fromString(value), start, end: this.tokenizer.position() };
   }
 
-  private plus() {
+  // Returns the rest of a time following the hour, i.e. `:MM:SS` along with whatever follows the seconds within the same
+  // token, such as the `Z` of an offset.
+  private minutesAndSeconds() {
+    this.tokenizer.assert('COLON');
+
+    const minutes = this.tokenizer.expect('BARE');
+
+    // The seconds may be omitted, in which case they default to zero. Fractional seconds still require the seconds.
+    //
+    // https://github.com/toml-lang/toml/blob/main/CHANGELOG.md#110
+    const isOmitted = !/^\d*$/.test(minutes.value) || !['COLON', 'PERIOD'].includes(this.tokenizer.peek().type);
+
+    if (this.options.version === '1.1' && isOmitted) {
+      const [, digits, rest] = /^(\d*)(.*)$/s.exec(minutes.value) as RegExpExecArray;
+
+      return `:${digits}:00${rest}`;
+    }
+
+    this.tokenizer.assert('COLON');
+
+    const seconds = this.tokenizer.expect('BARE');
+
+    return `:${minutes.value}:${seconds.value}`;
+  }
+
+  private plus(start: Position) {
     const token = this.tokenizer.expect('BARE');
 
-    return this.number(`+${token.value}`);
+    return this.number(`+${token.value}`, start);
   }
 
-  private number(value: string): IntegerNode | FloatNode {
+  private number(value: string, start: Position): IntegerNode | FloatNode {
     switch (value) {
       case 'inf':
       case '+inf':
-        return { type: 'FLOAT', value: Infinity };
+        return { type: 'FLOAT', value: Infinity, start, end: this.tokenizer.position() };
       case '-inf':
-        return { type: 'FLOAT', value: -Infinity };
+        return { type: 'FLOAT', value: -Infinity, start, end: this.tokenizer.position() };
       case 'nan':
       case '+nan':
       case '-nan':
-        return { type: 'FLOAT', value: NaN };
+        return { type: 'FLOAT', value: NaN, start, end: this.tokenizer.position() };
     }
 
     if (value.startsWith('0x')) {
-      return this.integer(value.slice(2), 16);
+      return this.integer(value.slice(2), 16, start);
     }
 
     if (value.startsWith('0o')) {
-      return this.integer(value.slice(2), 8);
+      return this.integer(value.slice(2), 8, start);
     }
 
     if (value.startsWith('0b')) {
-      return this.integer(value.slice(2), 2);
+      return this.integer(value.slice(2), 2, start);
     }
 
     if (value.includes('e') || value.includes('E') || this.tokenizer.peek().type === 'PERIOD') {
-      return this.float(value);
+      return this.float(value, start);
     }
 
-    return this.integer(value, 10);
+    return this.integer(value, 10, start);
   }
 
-  private integer(value: string, radix: 10 | 16 | 8 | 2): IntegerNode {
+  private integer(value: string, radix: 10 | 16 | 8 | 2, start: Position): IntegerNode {
     const isSignAllowed = radix === 10;
     const areLeadingZerosAllowed = radix !== 10;
 
     const { int } = parseInteger(value, isSignAllowed, areLeadingZerosAllowed, false, radix);
 
-    return { type: 'INTEGER', value: parseBigInt(int, radix) };
+    return { type: 'INTEGER', value: parseBigInt(int, radix), start, end: this.tokenizer.position() };
   }
 
-  private float(value: string): FloatNode {
+  private float(value: string, start: Position): FloatNode {
     let { int: float, unparsed } = parseInteger(value, true, false, true, 10);
 
     if (this.tokenizer.take('PERIOD')) {
       if (unparsed !== '') {
-        throw new TOMLError();
+        throw new TOMLError(`invalid float "${value}."`, { code: 'INVALID_NUMBER' });
       }
 
       const token = this.tokenizer.expect('BARE');
@@ -464,19 +803,25 @@ export class Parser {
         float += parseInteger(unparsed.slice(1), true, true, false, 10).int;
       }
     } else if (unparsed !== '') {
-      throw new TOMLError();
+      throw new TOMLError(`invalid float "${float}${unparsed}"`, { code: 'INVALID_NUMBER' });
     }
 
-    return { type: 'FLOAT', value: parseFloat(float) };
+    return { type: 'FLOAT', value: parseFloat(float), start, end: this.tokenizer.position() };
   }
 
-  private array() {
-    const arrayNode: ArrayNode = { type: 'ARRAY', elements: [] };
+  private array(start: Position) {
+    const arrayNode: ArrayNode = { type: 'ARRAY', elements: [], start, end: start };
+
+    this.brackets.push({ name: 'array', start });
+
+    let hasTrailingComma = false;
 
     for (;;) {
       this.takeCommentsAndNewlines();
 
       if (this.tokenizer.peek().type === 'RIGHT_SQUARE_BRACKET') {
+        hasTrailingComma = arrayNode.elements.length > 0;
+
         break;
       }
 
@@ -486,6 +831,8 @@ export class Parser {
 
       this.takeCommentsAndNewlines();
 
+      Object.assign(value, this.flushTrivia('trailing'));
+
       if (!this.tokenizer.take('COMMA')) {
         this.takeCommentsAndNewlines();
 
@@ -495,16 +842,40 @@ export class Parser {
 
     this.tokenizer.assert('RIGHT_SQUARE_BRACKET');
 
-    return arrayNode;
+    this.brackets.pop();
+
+    arrayNode.end = this.tokenizer.position();
+
+    if (this.options.cst) {
+      arrayNode.hasTrailingComma = hasTrailingComma;
+    }
+
+    return Object.assign(arrayNode, this.flushTrivia('closing'));
   }
 
-  private inlineTable() {
-    this.tokenizer.take('WHITESPACE');
+  private inlineTable(start: Position) {
+    const isMultiline = this.options.version === '1.1';
 
-    const inlineTableNode: InlineTableNode = { type: 'INLINE_TABLE', elements: [] };
+    if (isMultiline) {
+      this.brackets.push({ name: 'inline table', start });
+    }
+
+    this.takeInlineTableTrivia();
+
+    const inlineTableNode: InlineTableNode = { type: 'INLINE_TABLE', elements: [], start, end: start };
+
+    if (this.options.cst) {
+      inlineTableNode.hasTrailingComma = false;
+    }
 
     if (this.tokenizer.take('RIGHT_CURLY_BRACKET')) {
-      return inlineTableNode;
+      if (isMultiline) {
+        this.brackets.pop();
+      }
+
+      inlineTableNode.end = this.tokenizer.position();
+
+      return Object.assign(inlineTableNode, this.flushTrivia('closing'));
     }
 
     const keystore = new Keystore();
@@ -512,35 +883,129 @@ export class Parser {
     for (;;) {
       const keyValue = this.keyValuePair();
 
-      keystore.addNode(keyValue);
+      this.locate(keyValue.start, () => keystore.addNode(keyValue));
 
       inlineTableNode.elements.push(keyValue);
 
-      this.tokenizer.take('WHITESPACE');
+      this.takeInlineTableTrivia();
+
+      Object.assign(keyValue, this.flushTrivia('trailing'));
 
       if (this.tokenizer.take('RIGHT_CURLY_BRACKET')) {
         break;
       }
 
       this.tokenizer.assert('COMMA');
+      this.takeInlineTableTrivia();
+
+      if (this.options.version === '1.1' && this.tokenizer.take('RIGHT_CURLY_BRACKET')) {
+        if (this.options.cst) {
+          inlineTableNode.hasTrailingComma = true;
+        }
+
+        break;
+      }
+    }
+
+    if (isMultiline) {
+      this.brackets.pop();
     }
 
-    return inlineTableNode;
+    inlineTableNode.end = this.tokenizer.position();
+
+    return Object.assign(inlineTableNode, this.flushTrivia('closing'));
+  }
+
+  // Errors raised outside the tokenizer (e.g. by the keystore or while interpreting a literal) carry no code frame,
+  // and possibly no position, so they are reported against the input here.
+  private locate<T>(position: Position, callback: () => T): T {
+    try {
+      return callback();
+    } catch (err) {
+      if (err instanceof TOMLError && !err.frame) {
+        throw this.tokenizer.error(err.reason, err.code, err.position ?? position);
+      }
+
+      throw err;
+    }
+  }
+
+  // Inline tables are intended to appear on a single line, though newlines, comments and a trailing comma are allowed
+  // as of TOML 1.1.
+  //
+  // https://github.com/toml-lang/toml/blob/main/CHANGELOG.md#110
+  private takeInlineTableTrivia() {
+    if (this.options.version === '1.1') {
+      this.takeCommentsAndNewlines();
+    } else {
+      this.takeTrivia('WHITESPACE');
+    }
   }
 
   private takeCommentsAndNewlines() {
     for (;;) {
-      this.tokenizer.take('WHITESPACE');
+      this.takeTrivia('WHITESPACE');
 
-      if (this.tokenizer.take('COMMENT')) {
-        this.tokenizer.assert('NEWLINE');
+      if (this.takeTrivia('COMMENT')) {
+        this.takeNewlineOrEOF();
 
         continue;
       }
 
-      if (!this.tokenizer.take('NEWLINE')) {
+      if (!this.takeTrivia('NEWLINE')) {
         break;
       }
     }
   }
+
+  private takeNewlineOrEOF() {
+    if (this.takeTrivia('NEWLINE')) {
+      return true;
+    }
+
+    this.tokenizer.assert('NEWLINE', 'EOF');
+
+    return false;
+  }
+
+  private takeTrivia(type: TriviaNode['type']) {
+    const token = this.tokenizer.peek();
+
+    if (token.type !== type) {
+      return false;
+    }
+
+    this.tokenizer.next();
+    this.pushTrivia(token as TriviaToken);
+
+    return true;
+  }
+
+  private pushTrivia(token: TriviaToken) {
+    if (this.options.cst) {
+      const value = this.slice(token.start, token.end);
+
+      this.trivia.push({ type: token.type, value, start: token.start, end: token.end });
+    }
+  }
+
+  private flushTrivia<T extends 'leading' | 'trailing' | 'closing'>(slot: T): Partial<Record<T, TriviaNode[]>> {
+    if (!this.options.cst) {
+      return {};
+    }
+
+    const trivia = this.trivia;
+
+    this.trivia = [];
+
+    return { [slot]: trivia } as Record<T, TriviaNode[]>;
+  }
+
+  private raw(start: Position, end: Position): { raw?: string } {
+    return this.options.cst ? { raw: this.slice(start, end) } : {};
+  }
+
+  private slice(start: Position, end: Position) {
+    return this.input.slice(start.offset - this.origin.offset, end.offset - this.origin.offset);
+  }
 }
@@ -0,0 +1,77 @@
+import type { ArrayTableNode, KeyValuePairNode, Node, TableNode, TriviaNode } from './ast.js';
+import { encodeValue } from './encoder.js';
+
+// Nodes parsed without `{ cst: true }`, or created by hand, carry no trivia. They are printed with the given fallback,
+// i.e. the minimal whitespace needed for the output to stay valid and readable.
+const printTrivia = (trivia: TriviaNode[] | undefined, fallback = '') => {
+  if (!trivia) {
+    return fallback;
+  }
+
+  return trivia.map((node) => node.value).join('');
+};
+
+const printElements = (elements: (KeyValuePairNode | TableNode | ArrayTableNode)[]) => {
+  return elements
+    .map((element) => {
+      if (element.type === 'KEY_VALUE_PAIR') {
+        return `${print(element)}${element.trailing ? '' : '\n'}`;
+      }
+
+      return print(element);
+    })
+    .join('');
+};
+
+export const print = (node: Node): string => {
+  switch (node.type) {
+    case 'ROOT_TABLE':
+      return `${printElements(node.elements)}${printTrivia(node.closing)}`;
+    case 'TABLE':
+    case 'ARRAY_TABLE': {
+      const [open, close] = node.type === 'TABLE' ? ['[', ']'] : ['[[', ']]'];
+      const header = `${printTrivia(node.leading)}${open}${print(node.key)}${close}${printTrivia(node.trailing, '\n')}`;
+
+      return `${header}${printElements(node.elements)}`;
+    }
+    case 'KEY':
+      return node.keys.map((key) => print(key)).join('.');
+    case 'KEY_VALUE_PAIR': {
+      const separator = node.value.leading ? '=' : ' = ';
+      const pair = `${print(node.key)}${separator}${print(node.value)}`;
+
+      return `${printTrivia(node.leading)}${pair}${printTrivia(node.trailing)}`;
+    }
+    case 'INLINE_TABLE': {
+      const elements = node.elements.map((element) => {
+        return `${element.leading ? '' : ' '}${print(element)}`;
+      });
+
+      const comma = node.hasTrailingComma ? ',' : '';
+      const closing = printTrivia(node.closing, elements.length ? ' ' : '');
+
+      return `${printTrivia(node.leading)}{${elements.join(',')}${comma}${closing}}${printTrivia(node.trailing)}`;
+    }
+    case 'ARRAY': {
+      const elements = node.elements.map((element, i) => {
+        return `${element.leading || i === 0 ? '' : ' '}${print(element)}`;
+      });
+
+      const comma = node.hasTrailingComma ? ',' : '';
+      const closing = printTrivia(node.closing);
+
+      return `${printTrivia(node.leading)}[${elements.join(',')}${comma}${closing}]${printTrivia(node.trailing)}`;
+    }
+    case 'BARE':
+      return `${printTrivia(node.leading)}${node.value}${printTrivia(node.trailing)}`;
+    case 'STRING':
+    case 'INTEGER':
+    case 'FLOAT':
+    case 'BOOLEAN':
+    case 'OFFSET_DATE_TIME':
+    case 'LOCAL_DATE_TIME':
+    case 'LOCAL_DATE':
+    case 'LOCAL_TIME':
+      return `${printTrivia(node.leading)}${node.raw ?? encodeValue(node.value)}${printTrivia(node.trailing)}`;
+  }
+};
@@ -0,0 +1,336 @@
+import type {
+  ArrayNode,
+  ArrayTableNode,
+  BareNode,
+  InlineTableNode,
+  KeyNode,
+  KeyValuePairNode,
+  Position,
+  Range,
+  RootTableNode,
+  StringNode,
+  TableNode,
+  ValueNode,
+} from './ast.js';
+import { encodeValue } from './encoder.js';
+import { isBareKey } from './utils.js';
+
+export type KeyPath = (string | number)[];
+
+export type SectionNode = RootTableNode | TableNode | ArrayTableNode;
+
+export interface Definition {
+  // The fully resolved path, including the indices of arrays of tables, e.g. `['products', 1, 'name']`.
+  path: KeyPath;
+  // The node defining the path: a key/value pair, a table header, or an element of an array.
+  node: KeyValuePairNode | TableNode | ArrayTableNode | ValueNode;
+  // The node containing `node`, i.e. the table section it belongs to, or the enclosing inline table or array.
+  parent: SectionNode | InlineTableNode | ArrayNode;
+  // The key naming the last component of the path, absent for elements of arrays.
+  key?: BareNode | StringNode;
+  // The value, absent for tables defined by headers or implicitly.
+  value?: ValueNode;
+  // Whether the table has been created implicitly by a dotted key or a table header, e.g. `a` by `[a.b]`.
+  isImplicit: boolean;
+}
+
+type Shape = { type: 'TABLE'; children: Map<string, Shape> } | { type: 'ARRAY'; elements: Shape[] } | { type: 'VALUE' };
+
+const makeTableShape = (): Shape => {
+  return { type: 'TABLE', children: new Map() };
+};
+
+export const formatKeyPath = (path: KeyPath) => {
+  return path
+    .map((component, i) => {
+      if (typeof component === 'number') {
+        return `[${component}]`;
+      }
+
+      const key = isBareKey(component) ? component : encodeValue(component);
+
+      return i === 0 ? key : `.${key}`;
+    })
+    .join('');
+};
+
+export const isSamePath = (a: KeyPath, b: KeyPath) => {
+  return a.length === b.length && a.every((component, i) => component === b[i]);
+};
+
+export const startsWithPath = (path: KeyPath, prefix: KeyPath) => {
+  return prefix.length <= path.length && prefix.every((component, i) => component === path[i]);
+};
+
+// Tables defined both implicitly and explicitly are found by their explicit definition.
+export const findDefinition = (definitions: Definition[], path: KeyPath): Definition | undefined => {
+  const matches = definitions.filter((definition) => isSamePath(definition.path, path));
+
+  return matches.find((definition) => !definition.isImplicit) ?? matches[0];
+};
+
+// Finds the position of the value at the path, falling back to the closest table that has been defined, e.g. for keys
+// that are missing.
+export const locatePath = (definitions: Definition[], path: KeyPath): Position | undefined => {
+  for (let i = path.length; i > 0; i--) {
+    const definition = findDefinition(definitions, path.slice(0, i));
+
+    if (definition) {
+      return (definition.value ?? definition.key ?? definition.node).start;
+    }
+  }
+
+  return undefined;
+};
+
+export const containsOffset = (range: Range, offset: number) => {
+  return range.start.offset <= offset && offset <= range.end.offset;
+};
+
+// Resolves a part of a table header to a path, including the index of the element of an array of tables it passes
+// through, e.g. `products` within `[products.details]` to `products[1]`.
+const getHeaderPrefix = (path: KeyPath, index: number) => {
+  let count = 0;
+
+  for (let i = 0; i < path.length; i++) {
+    if (typeof path[i] === 'string' && count++ === index) {
+      return path.slice(0, typeof path[i + 1] === 'number' ? i + 2 : i + 1);
+    }
+  }
+
+  return path;
+};
+
+// Finds the component of a key at the offset, or right after it, along with the path it refers to, e.g.
+// `['fruit', 'apple']` for `apple` in `apple.color = "red"` under `[fruit]`.
+export const findKeyAt = (definitions: Definition[], offset: number) => {
+  const seen = new Set<KeyNode>();
+
+  for (const definition of [...definitions].reverse()) {
+    const node = definition.node as KeyValuePairNode | TableNode | ArrayTableNode;
+
+    if (definition.isImplicit || !('key' in node) || seen.has(node.key)) {
+      continue;
+    }
+
+    seen.add(node.key);
+
+    const { keys } = node.key;
+    const index = keys.findIndex((key) => containsOffset(key, offset));
+
+    if (index === -1) {
+      continue;
+    }
+
+    const { path } = definition;
+
+    if (node.type === 'KEY_VALUE_PAIR') {
+      return { key: keys[index], path: path.slice(0, path.length - (keys.length - 1 - index)) };
+    }
+
+    return { key: keys[index], path: getHeaderPrefix(path, index) };
+  }
+
+  return undefined;
+};
+
+// Finds the innermost value at the offset, or right after it. Values nested in arrays and inline tables are defined after
+// their parent, hence the last match is the innermost.
+export const findValueAt = (definitions: Definition[], offset: number) => {
+  return definitions.filter(({ value }) => value && containsOffset(value, offset)).pop();
+};
+
+// Resolves table headers, in document order, to the paths they refer to, i.e. including the index of the most recent
+// element of every array of tables they pass through.
+//
+// https://toml.io/en/v1.0.0#array-of-tables
+export class HeaderResolver {
+  private readonly counts = new Map<string, number>();
+
+  resolve(header: string[], isArrayTable: boolean) {
+    let path: KeyPath = [];
+
+    header.forEach((key, i) => {
+      path = [...path, key];
+
+      const id = JSON.stringify(path);
+      const count = this.counts.get(id);
+
+      if (isArrayTable && i === header.length - 1) {
+        this.counts.set(id, (count ?? 0) + 1);
+
+        path = [...path, count ?? 0];
+      } else if (typeof count !== 'undefined') {
+        path = [...path, count - 1];
+      }
+    });
+
+    return path;
+  }
+}
+
+// Walks the tree the way the keystore and the normalizer do, recording where every key path gets defined.
+class Resolver {
+  readonly definitions: Definition[] = [];
+
+  resolve(rootTableNode: RootTableNode) {
+    const root = makeTableShape();
+
+    let shape = root;
+    let path: KeyPath = [];
+    let section: SectionNode = rootTableNode;
+
+    for (const element of rootTableNode.elements) {
+      if (element.type === 'KEY_VALUE_PAIR') {
+        this.keyValuePair(element, shape, path, section);
+
+        continue;
+      }
+
+      [shape, path] = this.header(element, root, rootTableNode);
+      section = element;
+
+      for (const keyValuePair of element.elements) {
+        this.keyValuePair(keyValuePair, shape, path, section);
+      }
+    }
+
+    return this.definitions;
+  }
+
+  private header(node: TableNode | ArrayTableNode, root: Shape, rootTableNode: RootTableNode): [Shape, KeyPath] {
+    const keys = node.key.keys;
+
+    let shape = root;
+    let path: KeyPath = [];
+
+    for (let i = 0; i < keys.length; i++) {
+      const key = keys[i];
+      const isLast = i === keys.length - 1;
+
+      if (shape.type !== 'TABLE') {
+        break;
+      }
+
+      path = [...path, key.value];
+
+      let child = shape.children.get(key.value);
+
+      if (isLast && node.type === 'ARRAY_TABLE') {
+        if (!child) {
+          child = { type: 'ARRAY', elements: [] };
+
+          shape.children.set(key.value, child);
+
+          this.definitions.push({ path, node, parent: rootTableNode, key, isImplicit: false });
+        }
+
+        if (child.type !== 'ARRAY') {
+          break;
+        }
+
+        const element = makeTableShape();
+
+        child.elements.push(element);
+
+        path = [...path, child.elements.length - 1];
+
+        this.definitions.push({ path, node, parent: rootTableNode, key, isImplicit: false });
+
+        return [element, path];
+      }
+
+      if (!child) {
+        child = makeTableShape();
+
+        shape.children.set(key.value, child);
+
+        if (!isLast) {
+          this.definitions.push({ path, node, parent: rootTableNode, key, isImplicit: true });
+        }
+      }
+
+      if (isLast) {
+        this.definitions.push({ path, node, parent: rootTableNode, key, isImplicit: false });
+      }
+
+      // Sub-tables and arrays of tables nested in an array of tables belong to its most recent element.
+      //
+      // https://toml.io/en/v1.0.0#array-of-tables
+      if (child.type === 'ARRAY') {
+        path = [...path, child.elements.length - 1];
+        child = child.elements[child.elements.length - 1];
+      }
+
+      shape = child;
+    }
+
+    return [shape, path];
+  }
+
+  private keyValuePair(node: KeyValuePairNode, shape: Shape, path: KeyPath, parent: SectionNode | InlineTableNode) {
+    const keys = node.key.keys;
+
+    for (let i = 0; i < keys.length; i++) {
+      const key = keys[i];
+
+      path = [...path, key.value];
+
+      if (shape.type !== 'TABLE') {
+        return;
+      }
+
+      if (i === keys.length - 1) {
+        shape.children.set(key.value, { type: 'VALUE' });
+
+        this.definitions.push({ path, node, parent, key, value: node.value, isImplicit: false });
+        this.value(node.value, path);
+
+        return;
+      }
+
+      let child = shape.children.get(key.value);
+
+      if (!child) {
+        child = makeTableShape();
+
+        shape.children.set(key.value, child);
+
+        this.definitions.push({ path, node, parent, key, isImplicit: true });
+      }
+
+      shape = child;
+    }
+  }
+
+  private value(node: ValueNode, path: KeyPath) {
+    switch (node.type) {
+      case 'INLINE_TABLE': {
+        const shape = makeTableShape();
+
+        for (const element of node.elements) {
+          this.keyValuePair(element, shape, path, node);
+        }
+
+        break;
+      }
+      case 'ARRAY':
+        node.elements.forEach((element, i) => {
+          const elementPath = [...path, i];
+
+          this.definitions.push({ path: elementPath, node: element, parent: node, value: element, isImplicit: false });
+          this.value(element, elementPath);
+        });
+
+        break;
+    }
+  }
+}
+
+// Returns the definitions of all key paths in document order. A table may be defined more than once, implicitly before
+// it is defined explicitly by its header.
+export const resolve = (rootTableNode: RootTableNode) => {
+  const resolver = new Resolver();
+
+  return resolver.resolve(rootTableNode);
+};
@@ -0,0 +1,328 @@
+import type { RootTableNode } from './ast.js';
+import { type DecodeOptions, parse } from './decoder.js';
+import { TOMLValidationError, type TOMLValidationIssue } from './errors.js';
+import { normalize, type Value } from './normalizer.js';
+import { type KeyPath, locatePath, resolve } from './resolver.js';
+import { LocalDate, LocalDateTime, LocalTime, OffsetDateTime } from './types.js';
+import { describeValue, isTable } from './values.js';
+
+type Literal = string | bigint | number | boolean;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type Flatten<T> = { [K in keyof T]: T[K] } & unknown;
+
+export type Infer<S extends Schema<unknown>> = S extends Schema<infer T> ? T : never;
+
+type InferShape<S extends Shape> = Flatten<
+  { [K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]> } & {
+    [K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Infer<S[K]>;
+  }
+>;
+
+const describeLiteral = (value: Literal) => {
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+};
+
+export abstract class Schema<T> {
+  // Carries the type of valid values, it's never assigned.
+  declare readonly type: T;
+
+  // Reports the issues found in the value, not descending into values of the wrong type.
+  abstract check(value: Value | undefined, path: KeyPath, issues: TOMLValidationIssue[]): void;
+
+  optional(): OptionalSchema<T> {
+    return new OptionalSchema(this);
+  }
+
+  protected expect(description: string, value: Value | undefined, path: KeyPath, issues: TOMLValidationIssue[]) {
+    issues.push({ path, reason: `expected ${description}, found ${describeValue(value)}` });
+  }
+}
+
+export class OptionalSchema<T> extends Schema<T | undefined> {
+  constructor(private readonly schema: Schema<T>) {
+    super();
+  }
+
+  check(value: Value | undefined, path: KeyPath, issues: TOMLValidationIssue[]) {
+    if (typeof value !== 'undefined') {
+      this.schema.check(value, path, issues);
+    }
+  }
+}
+
+export class StringSchema extends Schema<string> {
+  private readonly checks: ((value: string) => string | null)[] = [];
+
+  check(value: Value | undefined, path: KeyPath, issues: TOMLValidationIssue[]) {
+    if (typeof value !== 'string') {
+      return this.expect('a string', value, path, issues);
+    }
+
+    for (const check of this.checks) {
+      const reason = check(value);
+
+      if (reason) {
+        issues.push({ path, reason });
+      }
+    }
+  }
+
+  minLength(length: number) {
+    this.checks.push((value) => (value.length < length ? `expected at least ${length} characters` : null));
+
+    return this;
+  }
+
+  maxLength(length: number) {
+    this.checks.push((value) => (value.length > length ? `expected at most ${length} characters` : null));
+
+    return this;
+  }
+
+  pattern(regexp: RegExp) {
+    this.checks.push((value) => (regexp.test(value) ? null : `expected a string matching ${regexp}`));
+
+    return this;
+  }
+}
+
+// Integers and floats are distinct types in TOML, hence e.g. `1` isn't accepted where a float is expected.
+//
+// https://toml.io/en/v1.0.0#float
+abstract class NumberSchema<T extends bigint | number> extends Schema<T> {
+  private minimum?: bigint | number;
+  private maximum?: bigint | number;
+
+  protected abstract readonly description: string;
+
+  protected abstract is(value: Value | undefined): value is T;
+
+  check(value: Value | undefined, path: KeyPath, issues: TOMLValidationIssue[]) {
+    if (!this.is(value)) {
+      return this.expect(this.description, value, path, issues);
+    }
+
+    if (typeof this.minimum !== 'undefined' && value < this.minimum) {
+      issues.push({
+        path,
+        reason: `expected ${this.description} greater than or equal to ${this.minimum}, found ${value}`,
+      });
+    }
+
+    if (typeof this.maximum !== 'undefined' && value > this.maximum) {
+      issues.push({
+        path,
+        reason: `expected ${this.description} less than or equal to ${this.maximum}, found ${value}`,
+      });
+    }
+  }
+
+  min(minimum: bigint | number) {
+    this.minimum = minimum;
+
+    return this;
+  }
+
+  max(maximum: bigint | number) {
+    this.maximum = maximum;
+
+    return this;
+  }
+}
+
+export class IntegerSchema extends NumberSchema<bigint> {
+  protected readonly description = 'an integer';
+
+  protected is(value: Value | undefined): value is bigint {
+    return typeof value === 'bigint';
+  }
+}
+
+export class FloatSchema extends NumberSchema<number> {
+  protected readonly description = 'a float';
+
+  protected is(value: Value | undefined): value is number {
+    return typeof value === 'number';
+  }
+}
+
+// Booleans, date-times, dates and times, which have no further constraints.
+export class InstanceSchema<T extends Value> extends Schema<T> {
+  constructor(private readonly description: string, private readonly is: (value: Value) => value is T) {
+    super();
+  }
+
+  check(value: Value | undefined, path: KeyPath, issues: TOMLValidationIssue[]) {
+    if (typeof value === 'undefined' || !this.is(value)) {
+      this.expect(this.description, value, path, issues);
+    }
+  }
+}
+
+export class LiteralSchema<T extends Literal> extends Schema<T> {
+  constructor(private readonly values: readonly T[]) {
+    super();
+  }
+
+  check(value: Value | undefined, path: KeyPath, issues: TOMLValidationIssue[]) {
+    if (!this.values.includes(value as T)) {
+      const description = this.values.map((value) => describeLiteral(value)).join(', ');
+
+      const found = this.values.some((other) => typeof other === typeof value)
+        ? describeLiteral(value as T)
+        : describeValue(value);
+
+      issues.push({ path, reason: `expected one of ${description}, found ${found}` });
+    }
+  }
+}
+
+export class ArraySchema<T> extends Schema<T[]> {
+  private minimum?: number;
+  private maximum?: number;
+
+  constructor(private readonly schema: Schema<T>) {
+    super();
+  }
+
+  check(value: Value | undefined, path: KeyPath, issues: TOMLValidationIssue[]) {
+    if (!Array.isArray(value)) {
+      return this.expect('an array', value, path, issues);
+    }
+
+    if (typeof this.minimum !== 'undefined' && value.length < this.minimum) {
+      issues.push({ path, reason: `expected at least ${this.minimum} elements` });
+    }
+
+    if (typeof this.maximum !== 'undefined' && value.length > this.maximum) {
+      issues.push({ path, reason: `expected at most ${this.maximum} elements` });
+    }
+
+    value.forEach((element, i) => this.schema.check(element, [...path, i], issues));
+  }
+
+  minLength(length: number) {
+    this.minimum = length;
+
+    return this;
+  }
+
+  maxLength(length: number) {
+    this.maximum = length;
+
+    return this;
+  }
+}
+
+export class TableSchema<S extends Shape> extends Schema<InferShape<S>> {
+  private isPassthrough = false;
+
+  constructor(private readonly shape: S) {
+    super();
+  }
+
+  check(value: Value | undefined, path: KeyPath, issues: TOMLValidationIssue[]) {
+    if (!isTable(value)) {
+      return this.expect('a table', value, path, issues);
+    }
+
+    for (const [key, schema] of Object.entries(this.shape)) {
+      if (!Object.prototype.hasOwnProperty.call(value, key) && !(schema instanceof OptionalSchema)) {
+        issues.push({ path: [...path, key], reason: 'missing required key' });
+
+        continue;
+      }
+
+      schema.check(value[key], [...path, key], issues);
+    }
+
+    if (this.isPassthrough) {
+      return;
+    }
+
+    for (const key of Object.keys(value)) {
+      if (!Object.prototype.hasOwnProperty.call(this.shape, key)) {
+        issues.push({ path: [...path, key], reason: 'unknown key' });
+      }
+    }
+  }
+
+  // Allows keys not listed in the shape, which are reported as unknown by default to catch typos.
+  passthrough() {
+    this.isPassthrough = true;
+
+    return this;
+  }
+}
+
+export class RecordSchema<T> extends Schema<Record<string, T>> {
+  constructor(private readonly schema: Schema<T>) {
+    super();
+  }
+
+  check(value: Value | undefined, path: KeyPath, issues: TOMLValidationIssue[]) {
+    if (!isTable(value)) {
+      return this.expect('a table', value, path, issues);
+    }
+
+    for (const [key, element] of Object.entries(value)) {
+      this.schema.check(element, [...path, key], issues);
+    }
+  }
+}
+
+export const t = {
+  string: () => new StringSchema(),
+  integer: () => new IntegerSchema(),
+  float: () => new FloatSchema(),
+  boolean: () => new InstanceSchema('a boolean', (value): value is boolean => typeof value === 'boolean'),
+  // Offset date-times are decoded to dates, or kept as is with `offsetDateTimes: 'offset-date-time'`.
+  offsetDateTime: () => {
+    return new InstanceSchema('an offset date-time', (value): value is Date | OffsetDateTime => {
+      return value instanceof Date || value instanceof OffsetDateTime;
+    });
+  },
+  localDateTime: () => {
+    return new InstanceSchema('a local date-time', (value): value is LocalDateTime => value instanceof LocalDateTime);
+  },
+  localDate: () => new InstanceSchema('a local date', (value): value is LocalDate => value instanceof LocalDate),
+  localTime: () => new InstanceSchema('a local time', (value): value is LocalTime => value instanceof LocalTime),
+  literal: <T extends Literal>(...values: T[]) => new LiteralSchema(values),
+  array: <T>(schema: Schema<T>) => new ArraySchema(schema),
+  table: <S extends Shape>(shape: S) => new TableSchema(shape),
+  record: <T>(schema: Schema<T>) => new RecordSchema(schema),
+};
+
+// Validates a decoded value, reporting all issues at once. Given the tree the value has been decoded from, the issues
+// carry the position of the offending values.
+export const validate = <S extends Schema<unknown>>(
+  schema: S,
+  value: Value,
+  rootTableNode?: RootTableNode,
+): Infer<S> => {
+  const issues: TOMLValidationIssue[] = [];
+
+  schema.check(value, [], issues);
+
+  if (issues.length) {
+    const definitions = rootTableNode ? resolve(rootTableNode) : [];
+
+    throw new TOMLValidationError(issues.map((issue) => ({ ...issue, position: locatePath(definitions, issue.path) })));
+  }
+
+  return value as Infer<S>;
+};
+
+// Values are validated as decoded by default, hence neither the `integers` option nor the reviver and hooks are
+// supported. Offset date-times may be kept as is with `offsetDateTimes: 'offset-date-time'`.
+export const decodeWithSchema = <S extends Schema<unknown>>(
+  input: string,
+  schema: S,
+  options: Pick<DecodeOptions, 'version' | 'offsetDateTimes'> = {},
+): Infer<S> => {
+  const node = parse(input, { version: options.version });
+
+  return validate(schema, normalize(node, { offsetDateTimes: options.offsetDateTimes }), node);
+};
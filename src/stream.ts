@@ -0,0 +1,181 @@
+import type { ArrayTableNode, KeyValuePairNode, Position, TableNode } from './ast.js';
+import { Keystore } from './keystore.js';
+import { normalize, type NormalizeOptions, type Value } from './normalizer.js';
+import type { DecodeOptions } from './decoder.js';
+import { Parser } from './parser.js';
+import { HeaderResolver, type KeyPath, startsWithPath } from './resolver.js';
+
+export type DecodeStreamEvent =
+  | { type: 'KEY_VALUE'; path: KeyPath; value: Value }
+  | { type: 'ARRAY_TABLE_ELEMENT'; path: KeyPath; value: Record<string, Value> };
+
+// The subset of the web `ReadableStream` interface relied upon, so that the DOM typings aren't required.
+export interface ReadableStreamLike<T> {
+  getReader(): {
+    read(): Promise<{ done: true; value?: undefined } | { done: false; value: T }>;
+    releaseLock(): void;
+  };
+}
+
+export type DecodeStreamSource = AsyncIterable<string | Uint8Array> | ReadableStreamLike<string | Uint8Array>;
+
+interface ArrayTableElement {
+  header: string[];
+  path: KeyPath;
+  nodes: (TableNode | ArrayTableNode)[];
+}
+
+const readChunks = async function* (source: DecodeStreamSource) {
+  if (!('getReader' in source)) {
+    yield* source;
+
+    return;
+  }
+
+  const reader = source.getReader();
+
+  try {
+    for (;;) {
+      const result = await reader.read();
+
+      if (result.done) {
+        return;
+      }
+
+      yield result.value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+};
+
+// Multi-byte characters may be split across chunks, hence the decoder is kept in streaming mode until the end.
+const decodeChunks = async function* (source: DecodeStreamSource) {
+  const decoder = new TextDecoder('utf-8', { fatal: true });
+
+  for await (const chunk of readChunks(source)) {
+    yield typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+  }
+
+  yield decoder.decode();
+};
+
+// Turns the expressions of a document into events. Key/value pairs are emitted as soon as they are parsed, except for
+// those belonging to an element of an array of tables, which is emitted as a whole once the next table header outside of
+// it is reached.
+class EventEmitter {
+  private readonly headers = new HeaderResolver();
+  private path: KeyPath = [];
+  private element: ArrayTableElement | null = null;
+
+  constructor(private readonly options: NormalizeOptions) {}
+
+  *add(node: KeyValuePairNode | TableNode | ArrayTableNode): Generator<DecodeStreamEvent> {
+    if (node.type === 'KEY_VALUE_PAIR') {
+      if (this.element) {
+        this.element.nodes[this.element.nodes.length - 1].elements.push(node);
+
+        return;
+      }
+
+      const keys = node.key.keys.map((key) => key.value);
+
+      yield { type: 'KEY_VALUE', path: [...this.path, ...keys], value: normalize(node.value, this.options) };
+
+      return;
+    }
+
+    const header = node.key.keys.map((key) => key.value);
+
+    if (this.element && header.length > this.element.header.length && startsWithPath(header, this.element.header)) {
+      this.element.nodes.push(node);
+
+      return;
+    }
+
+    yield* this.flush();
+
+    this.path = this.headers.resolve(header, node.type === 'ARRAY_TABLE');
+
+    if (node.type === 'ARRAY_TABLE') {
+      this.element = { header, path: this.path, nodes: [node] };
+    }
+  }
+
+  *flush(): Generator<DecodeStreamEvent> {
+    if (!this.element) {
+      return;
+    }
+
+    const { header, path, nodes } = this.element;
+    const root = normalize(
+      { type: 'ROOT_TABLE', elements: nodes, start: nodes[0].start, end: nodes[0].end },
+      this.options,
+    );
+    const [value] = header.reduce<Value>((acc, key) => (acc as Record<string, Value>)[key], root) as Value[];
+
+    this.element = null;
+
+    yield { type: 'ARRAY_TABLE_ELEMENT', path, value: value as Record<string, Value> };
+  }
+}
+
+// Decodes a document read from a Node.js `Readable` or a web `ReadableStream`, without buffering more than the
+// expression being parsed. Events carry the paths of their values, hence the reviver isn't supported.
+export const decodeStream = async function* (
+  source: DecodeStreamSource,
+  options: Omit<DecodeOptions, 'reviver'> = {},
+): AsyncGenerator<DecodeStreamEvent> {
+  const keystore = new Keystore();
+  const emitter = new EventEmitter(options);
+  const chunks = decodeChunks(source);
+
+  let input = '';
+  let origin: Position = { offset: 0, line: 1, column: 1 };
+
+  for (let isDone = false; !isDone; ) {
+    const result = await chunks.next();
+
+    if (result.done) {
+      isDone = true;
+    } else {
+      input += result.value;
+    }
+
+    const parser = new Parser(input, { version: options.version }, origin, keystore);
+
+    let end = origin;
+
+    for (;;) {
+      let statement: ReturnType<Parser['statement']>;
+
+      // Unless the end of the document has been reached, an error raised upon reading the end of the input, e.g. for an
+      // unterminated string or a key split across chunks, may just as well mean that the rest of the expression is yet
+      // to be read. Other errors are thrown right away.
+      try {
+        statement = parser.statement();
+      } catch (err) {
+        if (isDone || !parser.isEndReached()) {
+          throw err;
+        }
+
+        break;
+      }
+
+      if (!statement || (!statement.isTerminated && !isDone)) {
+        break;
+      }
+
+      parser.register(statement.node);
+
+      yield* emitter.add(statement.node);
+
+      end = statement.end;
+    }
+
+    input = input.slice(end.offset - origin.offset);
+    origin = end;
+  }
+
+  yield* emitter.flush();
+};
@@ -0,0 +1,145 @@
+import type { NormalizeOptions } from './normalizer.js';
+import { LocalDate, LocalDateTime, LocalTime, OffsetDateTime } from './types.js';
+
+// The parts of the TC39 Temporal API relied upon, typed structurally so that neither a native implementation nor a
+// polyfill is required.
+//
+// https://tc39.es/proposal-temporal/docs/
+export interface TemporalPlainDate {
+  readonly [Symbol.toStringTag]: 'Temporal.PlainDate';
+  toString(options?: { calendarName?: 'never' }): string;
+}
+
+export interface TemporalPlainTime {
+  readonly [Symbol.toStringTag]: 'Temporal.PlainTime';
+  toString(): string;
+}
+
+export interface TemporalPlainDateTime {
+  readonly [Symbol.toStringTag]: 'Temporal.PlainDateTime';
+  toString(options?: { calendarName?: 'never' }): string;
+}
+
+export interface TemporalZonedDateTime {
+  readonly [Symbol.toStringTag]: 'Temporal.ZonedDateTime';
+  toString(options?: { calendarName?: 'never'; timeZoneName?: 'never' }): string;
+}
+
+export interface TemporalInstant {
+  readonly [Symbol.toStringTag]: 'Temporal.Instant';
+  toString(): string;
+}
+
+export type TemporalValue =
+  | TemporalPlainDate
+  | TemporalPlainTime
+  | TemporalPlainDateTime
+  | TemporalZonedDateTime
+  | TemporalInstant;
+
+// The `Temporal` namespace, e.g. `globalThis.Temporal` or the one exported by a polyfill.
+export interface TemporalNamespace {
+  PlainDate: { from(item: string): TemporalPlainDate };
+  PlainTime: { from(item: string): TemporalPlainTime };
+  PlainDateTime: { from(item: string): TemporalPlainDateTime };
+  ZonedDateTime: { from(item: string): TemporalZonedDateTime };
+  Instant: { from(item: string): TemporalInstant };
+}
+
+export interface TemporalOptions {
+  // Whether offset date-times are converted to a `ZonedDateTime` in a time zone of the same fixed offset (default),
+  // or to an `Instant`, losing the offset.
+  offsetDateTimes?: 'zoned-date-time' | 'instant';
+}
+
+const TEMPORAL_TAGS = [
+  'Temporal.PlainDate',
+  'Temporal.PlainTime',
+  'Temporal.PlainDateTime',
+  'Temporal.ZonedDateTime',
+  'Temporal.Instant',
+];
+
+// Temporal objects are recognized by their tag, which polyfills set as well, rather than by `instanceof`.
+export const isTemporal = (value: unknown): value is TemporalValue => {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    TEMPORAL_TAGS.includes(Object.prototype.toString.call(value).slice(8, -1))
+  );
+};
+
+// Local date-times, dates and times map to their plain counterparts, offset date-times to a `ZonedDateTime` in a time
+// zone of the same fixed offset, and `Date` objects to an `Instant`.
+export function toTemporal(temporal: TemporalNamespace, value: LocalDate): TemporalPlainDate;
+export function toTemporal(temporal: TemporalNamespace, value: LocalTime): TemporalPlainTime;
+export function toTemporal(temporal: TemporalNamespace, value: LocalDateTime): TemporalPlainDateTime;
+export function toTemporal(temporal: TemporalNamespace, value: OffsetDateTime): TemporalZonedDateTime;
+export function toTemporal(temporal: TemporalNamespace, value: Date): TemporalInstant;
+export function toTemporal(
+  temporal: TemporalNamespace,
+  value: LocalDate | LocalTime | LocalDateTime | OffsetDateTime | Date,
+): TemporalValue;
+export function toTemporal(
+  temporal: TemporalNamespace,
+  value: LocalDate | LocalTime | LocalDateTime | OffsetDateTime | Date,
+): TemporalValue {
+  if (value instanceof LocalDate) {
+    return temporal.PlainDate.from(value.toString());
+  }
+
+  if (value instanceof LocalTime) {
+    return temporal.PlainTime.from(value.toString());
+  }
+
+  if (value instanceof LocalDateTime) {
+    return temporal.PlainDateTime.from(value.toString());
+  }
+
+  if (value instanceof OffsetDateTime) {
+    const iso = value.toISOString();
+
+    return temporal.ZonedDateTime.from(`${iso}[${iso.endsWith('Z') ? '+00:00' : iso.slice(-6)}]`);
+  }
+
+  return temporal.Instant.from(value.toISOString());
+}
+
+// The ISO 8601 representations of Temporal objects are read back as TOML values, hence dates of other calendars are
+// converted to the ISO calendar, and a `TOMLError` is thrown for years beyond 9999 and offsets with seconds.
+export function fromTemporal(value: TemporalPlainDate): LocalDate;
+export function fromTemporal(value: TemporalPlainTime): LocalTime;
+export function fromTemporal(value: TemporalPlainDateTime): LocalDateTime;
+export function fromTemporal(value: TemporalZonedDateTime | TemporalInstant): OffsetDateTime;
+export function fromTemporal(value: TemporalValue): LocalDate | LocalTime | LocalDateTime | OffsetDateTime;
+export function fromTemporal(value: TemporalValue): LocalDate | LocalTime | LocalDateTime | OffsetDateTime {
+  switch (value[Symbol.toStringTag]) {
+    case 'Temporal.PlainDate':
+      return LocalDate.fromString(value.toString({ calendarName: 'never' }));
+    case 'Temporal.PlainTime':
+      return LocalTime.fromString(value.toString());
+    case 'Temporal.PlainDateTime':
+      return LocalDateTime.fromString(value.toString({ calendarName: 'never' }));
+    case 'Temporal.ZonedDateTime':
+      return OffsetDateTime.fromString(value.toString({ calendarName: 'never', timeZoneName: 'never' }));
+    case 'Temporal.Instant':
+      return OffsetDateTime.fromString(value.toString());
+  }
+}
+
+// Decodes date-times, dates and times as Temporal objects, e.g. `decode(input, temporalHooks(Temporal))`.
+export const temporalHooks = (
+  temporal: TemporalNamespace,
+  options: TemporalOptions = {},
+): Pick<NormalizeOptions, 'onOffsetDateTime' | 'onLocalDateTime' | 'onLocalDate' | 'onLocalTime'> => {
+  return {
+    onOffsetDateTime: (value) => {
+      return options.offsetDateTimes === 'instant'
+        ? temporal.Instant.from(value.toISOString())
+        : toTemporal(temporal, value);
+    },
+    onLocalDateTime: (value) => toTemporal(temporal, value),
+    onLocalDate: (value) => toTemporal(temporal, value),
+    onLocalTime: (value) => toTemporal(temporal, value),
+  };
+};
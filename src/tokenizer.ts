@@ -1,7 +1,8 @@
-import { TOMLError } from './errors.js';
-import { isHexadecimal } from './utils.js';
+import { TOMLError, type TOMLErrorCode } from './errors.js';
+import { isHexadecimal, makeCodeFrame } from './utils.js';
+import type { Position, Range } from './ast.js';
 
-interface BaseToken<T extends string> {
+interface BaseToken<T extends string> extends Range {
   type: T;
   value: string;
 }
@@ -18,17 +19,17 @@ type LeftSquareBracketToken = BaseToken<'LEFT_SQUARE_BRACKET'>;
 type RightSquareBracketToken = BaseToken<'RIGHT_SQUARE_BRACKET'>;
 type LeftCurlyBracketToken = BaseToken<'LEFT_CURLY_BRACKET'>;
 type RightCurlyBracketToken = BaseToken<'RIGHT_CURLY_BRACKET'>;
-type BareToken = BaseToken<'BARE'>;
+export type BareToken = BaseToken<'BARE'>;
 
-interface EOFToken {
+interface EOFToken extends Range {
   type: 'EOF';
 }
 
-interface StringToken extends BaseToken<'STRING'> {
+export interface StringToken extends BaseToken<'STRING'> {
   isMultiline: boolean;
 }
 
-type Token =
+export type Token =
   | WhitespaceToken
   | NewlineToken
   | CommentToken
@@ -66,8 +67,12 @@ const isWhitespace = (char: string | typeof EOF) => {
   return char === ' ' || char === '\t';
 };
 
-const isUnicodeCharacter = (char: string | typeof EOF) => {
-  return char <= '\u{10ffff}';
+// Any Unicode character may be escaped with the \uXXXX or \UXXXXXXXX forms.
+// The escape codes must be valid Unicode scalar values.
+//
+// https://toml.io/en/v1.0.0#string
+const isUnicodeScalarValue = (codePoint: number) => {
+  return (0 <= codePoint && codePoint < 0xd800) || (0xdfff < codePoint && codePoint <= 0x10ffff);
 };
 
 const isControlCharacter = (char: string | typeof EOF) => {
@@ -116,12 +121,58 @@ const ESCAPES = {
   '\\': '\\',
 };
 
-const isEscaped = (char: string | typeof EOF): char is keyof typeof ESCAPES => {
-  return char in ESCAPES;
+// TOML 1.1 adds \e for the escape character and \xHH for code points up to U+00FF.
+//
+// https://github.com/toml-lang/toml/blob/main/CHANGELOG.md#110
+const ESCAPES_1_1 = {
+  ...ESCAPES,
+  e: '\x1B',
+};
+
+const isEscaped = (char: string | typeof EOF, escapes: Record<string, string>) => {
+  return char !== EOF && Object.prototype.hasOwnProperty.call(escapes, char);
+};
+
+const TOKEN_DESCRIPTIONS = {
+  WHITESPACE: 'whitespace',
+  NEWLINE: 'newline',
+  COMMENT: 'comment',
+  EQUALS: '"="',
+  PERIOD: '"."',
+  COMMA: '","',
+  COLON: '":"',
+  PLUS: '"+"',
+  LEFT_SQUARE_BRACKET: '"["',
+  RIGHT_SQUARE_BRACKET: '"]"',
+  LEFT_CURLY_BRACKET: '"{"',
+  RIGHT_CURLY_BRACKET: '"}"',
+  BARE: 'bare key or value',
+  EOF: 'end of input',
+  STRING: 'string',
+} as const;
+
+const describeToken = (token: Token) => {
+  if (token.type === 'BARE') {
+    return `"${token.value}"`;
+  }
+
+  return TOKEN_DESCRIPTIONS[token.type];
+};
+
+const describeTokenTypes = (types: Token['type'][]) => {
+  return types.map((type) => TOKEN_DESCRIPTIONS[type]).join(' or ');
+};
+
+const describeCharacter = (char: string) => {
+  const codePoint = char.codePointAt(0) as number;
+
+  return `U+${codePoint.toString(16).toUpperCase().padStart(4, '0')}`;
 };
 
 class InputIterator {
   pos = -1;
+  // Whether the end of the input has been read, including a carriage return that may be followed by a line feed.
+  isEndReached = false;
 
   constructor(private readonly input: string) {}
 
@@ -148,6 +199,8 @@ class InputIterator {
 
   next() {
     if (this.pos + 1 === this.input.length) {
+      this.isEndReached = true;
+
       return EOF;
     }
 
@@ -155,6 +208,10 @@ class InputIterator {
 
     const char = this.input[this.pos];
 
+    if (char === '\r' && this.pos + 1 === this.input.length) {
+      this.isEndReached = true;
+    }
+
     if (char === '\r' && this.input[this.pos + 1] === '\n') {
       this.pos++;
 
@@ -165,11 +222,37 @@ class InputIterator {
   }
 }
 
+export type TOMLVersion = '1.0' | '1.1';
+
 export class Tokenizer {
   private readonly iterator: InputIterator;
-
-  constructor(private readonly input: string) {
+  private readonly lineStarts: number[] = [0];
+
+  // The origin is the position of the input within a larger document, which must be the start of a line. Positions are
+  // reported relative to that document, e.g. while decoding a stream piece by piece.
+  constructor(
+    private readonly input: string,
+    private readonly origin: Position = { offset: 0, line: 1, column: 1 },
+    private readonly version: TOMLVersion = '1.0',
+  ) {
     this.iterator = new InputIterator(input);
+
+    for (let i = 0; i < input.length; i++) {
+      if (input[i] === '\n') {
+        this.lineStarts.push(i + 1);
+      }
+    }
+  }
+
+  // Whether the end of the input has been read, even if only peeked at, e.g. by a token or an expression that may go on
+  // in the rest of a document read piece by piece.
+  isEndReached() {
+    return this.iterator.isEndReached;
+  }
+
+  // Returns the position right after the last consumed token.
+  position() {
+    return this.positionAt(this.iterator.pos + 1);
   }
 
   peek() {
@@ -201,21 +284,45 @@ export class Tokenizer {
   }
 
   assert(...types: Token['type'][]) {
-    if (!this.take(...types)) {
-      throw new TOMLError();
+    const token = this.peek();
+
+    if (!types.includes(token.type)) {
+      throw this.unexpected(token, describeTokenTypes(types));
     }
+
+    this.next();
   }
 
   expect<T extends Token['type']>(type: T): TokenFromType<T> {
     const token = this.next();
 
     if (token.type !== type) {
-      throw new TOMLError();
+      throw this.unexpected(token, describeTokenTypes([type]));
     }
 
     return token as TokenFromType<T>;
   }
 
+  // Moves back to a position of the input, e.g. to the start of an invalid token to resume after an error.
+  seek(position: Position) {
+    this.iterator.pos = position.offset - this.origin.offset - 1;
+  }
+
+  // Skips a single character, e.g. one that doesn't start a valid token, to resume after an error.
+  skip() {
+    this.iterator.next();
+  }
+
+  error(reason: string, code: TOMLErrorCode, position: Position) {
+    const frame = makeCodeFrame(this.input, { ...position, offset: position.offset - this.origin.offset });
+
+    return new TOMLError(reason, { code, position, frame });
+  }
+
+  unexpected(token: Token, expected: string) {
+    return this.error(`expected ${expected}, found ${describeToken(token)}`, 'UNEXPECTED_TOKEN', token.start);
+  }
+
   sequence<T1 extends Token['type'], T2 extends Token['type'], T3 extends Token['type']>(
     type1: T1,
     type2: T2,
@@ -232,11 +339,11 @@ export class Tokenizer {
   }
 
   next(): Token {
+    const start = this.iterator.pos + 1;
     const char = this.iterator.next();
-    const start = this.iterator.pos;
 
     if (isPunctuatorOrNewline(char)) {
-      return { type: PUNCTUATOR_OR_NEWLINE_TOKENS[char], value: char };
+      return { type: PUNCTUATOR_OR_NEWLINE_TOKENS[char], value: char, ...this.range(start) };
     }
 
     if (isBare(char)) {
@@ -250,14 +357,48 @@ export class Tokenizer {
       case '#':
         return this.scanComment(start);
       case "'":
-        return this.scanLiteralString();
+        return this.scanLiteralString(start);
       case '"':
-        return this.scanBasicString();
+        return this.scanBasicString(start);
       case EOF:
-        return { type: 'EOF' };
+        return { type: 'EOF', ...this.range(start) };
+    }
+
+    if (isControlCharacter(char)) {
+      throw this.error(
+        `control character ${describeCharacter(char)} is not allowed here`,
+        'INVALID_CONTROL_CHARACTER',
+        this.positionAt(start),
+      );
     }
 
-    throw new TOMLError();
+    throw this.error(`unexpected character "${char}"`, 'UNEXPECTED_CHARACTER', this.positionAt(start));
+  }
+
+  // Lines and columns are one-based, offsets are zero-based. Columns are counted in UTF-16 code units.
+  private positionAt(offset: number): Position {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+
+      if (this.lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return {
+      offset: this.origin.offset + offset,
+      line: this.origin.line + low,
+      column: offset - this.lineStarts[low] + 1,
+    };
+  }
+
+  private range(start: number): Range {
+    return { start: this.positionAt(start), end: this.position() };
   }
 
   private scanBare(start: number): BareToken {
@@ -265,7 +406,7 @@ export class Tokenizer {
       this.iterator.next();
     }
 
-    return { type: 'BARE', value: this.input.slice(start, this.iterator.pos + 1) };
+    return { type: 'BARE', value: this.input.slice(start, this.iterator.pos + 1), ...this.range(start) };
   }
 
   private scanWhitespace(start: number): WhitespaceToken {
@@ -273,7 +414,7 @@ export class Tokenizer {
       this.iterator.next();
     }
 
-    return { type: 'WHITESPACE', value: this.input.slice(start, this.iterator.pos + 1) };
+    return { type: 'WHITESPACE', value: this.input.slice(start, this.iterator.pos + 1), ...this.range(start) };
   }
 
   private scanComment(start: number): CommentToken {
@@ -283,22 +424,24 @@ export class Tokenizer {
       // Control characters other than tab (U+0000 to U+0008, U+000A to U+001F, U+007F) are not permitted in comments.
       //
       // https://toml.io/en/v1.0.0#comment
-      if (!isControlCharacterOtherThanTab(char)) {
+      if (char !== EOF && !isControlCharacterOtherThanTab(char)) {
         this.iterator.next();
 
         continue;
       }
 
-      return { type: 'COMMENT', value: this.input.slice(start, this.iterator.pos + 1) };
+      return { type: 'COMMENT', value: this.input.slice(start, this.iterator.pos + 1), ...this.range(start) };
     }
   }
 
-  private scanString(delimiter: "'" | '"'): StringToken {
+  private scanString(start: number, delimiter: "'" | '"'): StringToken {
+    const kind = delimiter === "'" ? 'literal string' : 'basic string';
+
     let isMultiline = false;
 
     if (this.iterator.take(delimiter)) {
       if (!this.iterator.take(delimiter)) {
-        return { type: 'STRING', value: '', isMultiline: false };
+        return { type: 'STRING', value: '', isMultiline: false, ...this.range(start) };
       }
 
       isMultiline = true;
@@ -319,7 +462,7 @@ export class Tokenizer {
       switch (char) {
         case '\n':
           if (!isMultiline) {
-            throw new TOMLError();
+            throw this.error(`unterminated ${kind}`, 'UNTERMINATED_STRING', this.positionAt(start));
           }
 
           value += char;
@@ -350,11 +493,19 @@ export class Tokenizer {
           }
 
           break;
-        case undefined:
-          throw new TOMLError();
+        case EOF:
+          throw this.error(
+            `unterminated ${isMultiline ? `multiline ${kind}` : kind}`,
+            'UNTERMINATED_STRING',
+            this.positionAt(start),
+          );
         default:
           if (isControlCharacterOtherThanTab(char)) {
-            throw new TOMLError();
+            throw this.error(
+              `control character ${describeCharacter(char)} must be escaped in ${kind}s`,
+              'INVALID_CONTROL_CHARACTER',
+              this.positionAt(this.iterator.pos),
+            );
           }
 
           switch (delimiter) {
@@ -364,40 +515,51 @@ export class Tokenizer {
               continue;
             case '"':
               if (char === '\\') {
+                const escapePosition = this.positionAt(this.iterator.pos);
                 const char = this.iterator.next();
 
-                if (isEscaped(char)) {
-                  value += ESCAPES[char];
+                const escapes: Record<string, string> = this.version === '1.1' ? ESCAPES_1_1 : ESCAPES;
+
+                if (isEscaped(char, escapes)) {
+                  value += escapes[char as string];
 
                   continue;
                 }
 
-                // Any Unicode character may be escaped with the \uXXXX or \UXXXXXXXX forms.
+                // Any Unicode character may be escaped with the \uXXXX or \UXXXXXXXX forms, or \xHH as of TOML 1.1.
                 // The escape codes must be valid Unicode scalar values.
                 //
                 // https://toml.io/en/v1.0.0#string
-                if (char === 'u' || char === 'U') {
-                  const size = char === 'u' ? 4 : 8;
+                if (char === 'u' || char === 'U' || (char === 'x' && this.version === '1.1')) {
+                  const size = char === 'x' ? 2 : char === 'u' ? 4 : 8;
 
                   let codePoint = '';
 
                   for (let i = 0; i < size; i++) {
-                    const char = this.iterator.next();
-
-                    if (char === EOF || !isHexadecimal(char)) {
-                      throw new TOMLError();
+                    const digit = this.iterator.next();
+
+                    if (digit === EOF || !isHexadecimal(digit)) {
+                      throw this.error(
+                        `invalid escape sequence \\${char}, expected ${size} hexadecimal digits`,
+                        'INVALID_ESCAPE_SEQUENCE',
+                        escapePosition,
+                      );
                     }
 
-                    codePoint += char;
+                    codePoint += digit;
                   }
 
-                  const result = String.fromCodePoint(parseInt(codePoint, 16));
+                  const result = parseInt(codePoint, 16);
 
-                  if (!isUnicodeCharacter(result)) {
-                    throw new TOMLError();
+                  if (!isUnicodeScalarValue(result)) {
+                    throw this.error(
+                      `escape sequence \\${char}${codePoint} is not a valid unicode scalar value`,
+                      'INVALID_ESCAPE_SEQUENCE',
+                      escapePosition,
+                    );
                   }
 
-                  value += result;
+                  value += String.fromCodePoint(result);
 
                   continue;
                 }
@@ -415,7 +577,11 @@ export class Tokenizer {
                   continue;
                 }
 
-                throw new TOMLError();
+                if (char === EOF || char === '\n') {
+                  throw this.error(`unterminated ${kind}`, 'UNTERMINATED_STRING', this.positionAt(start));
+                }
+
+                throw this.error(`invalid escape sequence \\${char}`, 'INVALID_ESCAPE_SEQUENCE', escapePosition);
               }
 
               value += char;
@@ -427,14 +593,14 @@ export class Tokenizer {
       break;
     }
 
-    return { type: 'STRING', value, isMultiline };
+    return { type: 'STRING', value, isMultiline, ...this.range(start) };
   }
 
-  private scanLiteralString() {
-    return this.scanString("'");
+  private scanLiteralString(start: number) {
+    return this.scanString(start, "'");
   }
 
-  private scanBasicString() {
-    return this.scanString('"');
+  private scanBasicString(start: number) {
+    return this.scanString(start, '"');
   }
 }
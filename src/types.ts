@@ -36,34 +36,32 @@ export type Day =
   | 31;
 
 const isYear = (value: number) => {
-  return 0 <= value && value <= 9999;
+  return Number.isInteger(value) && 0 <= value && value <= 9999;
 };
 
 const isMonth = (value: number): value is Month => {
-  return 0 < value && value <= 12;
+  return Number.isInteger(value) && 0 < value && value <= 12;
 };
 
-const isDay = (value: number): value is Day => {
-  return 0 < value && value <= 31;
+const isLeapYear = (year: number) => {
+  return year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0);
 };
 
-export class LocalDate {
-  private constructor(readonly year: number, readonly month: Month, readonly day: Day) {}
-
-  static fromString(value: string) {
-    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
-      throw new TOMLError(`invalid local date format "${value}"`);
-    }
-
-    const [year, month, day] = value.split('-').map((component) => parseInt(component, 10));
+// date-mday = 2DIGIT ; 01-28, 01-29, 01-30, 01-31 based on
+//                    ; month/year
+//
+// https://datatracker.ietf.org/doc/html/rfc3339#section-5.6
+const getDaysInMonth = (year: number, month: Month) => {
+  if (month === 2) {
+    return isLeapYear(year) ? 29 : 28;
+  }
 
-    if (!isYear(year) || !isMonth(month) || !isDay(day)) {
-      throw new TOMLError(`invalid local date format "${value}"`);
-    }
+  return month === 4 || month === 6 || month === 9 || month === 11 ? 30 : 31;
+};
 
-    return new LocalDate(year, month, day);
-  }
-}
+const isDay = (value: number, year: number, month: Month): value is Day => {
+  return Number.isInteger(value) && 0 < value && value <= getDaysInMonth(year, month);
+};
 
 export type Hour =
   | 0
@@ -156,50 +154,281 @@ export type Minute =
 export type Second = Minute;
 
 const isHour = (value: number): value is Hour => {
-  return 0 <= value && value < 24;
+  return Number.isInteger(value) && 0 <= value && value < 24;
 };
 
 const isMinute = (value: number): value is Minute => {
-  return 0 <= value && value < 60;
+  return Number.isInteger(value) && 0 <= value && value < 60;
 };
 
 const isSecond = (value: number): value is Second => {
-  return 0 <= value && value < 60;
+  return Number.isInteger(value) && 0 <= value && value < 60;
+};
+
+const isNanosecond = (value: number) => {
+  return Number.isInteger(value) && 0 <= value && value < 1e9;
+};
+
+// Fractions of seconds are kept in nanoseconds, the precision of most date-time libraries.
+//
+// If the value contains greater precision than the implementation
+// can support, the additional precision must be truncated, not rounded.
+//
+// https://toml.io/en/v1.0.0#local-time
+const parseFraction = (value: string | undefined) => {
+  return value ? parseInt(value.slice(0, 9).padEnd(9, '0'), 10) : 0;
+};
+
+const pad = (value: number, length = 2) => {
+  return value.toString(10).padStart(length, '0');
 };
 
+// Milliseconds are written with 3 digits as usual, more digits only being written when needed.
+const formatFraction = (nanosecond: number) => {
+  if (nanosecond === 0) {
+    return '';
+  }
+
+  return `.${pad(nanosecond, 9).replace(/0+$/, '').padEnd(3, '0')}`;
+};
+
+const formatDate = (value: LocalDate | LocalDateTime | OffsetDateTime) => {
+  return `${pad(value.year, 4)}-${pad(value.month)}-${pad(value.day)}`;
+};
+
+const formatTime = (value: LocalTime | LocalDateTime | OffsetDateTime) => {
+  return `${pad(value.hour)}:${pad(value.minute)}:${pad(value.second)}${formatFraction(value.nanosecond)}`;
+};
+
+// Orders values by their components, from the most significant one.
+const compareComponents = (a: number[], b: number[]) => {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) {
+      return a[i] < b[i] ? -1 : 1;
+    }
+  }
+
+  return 0;
+};
+
+interface WallClockTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+// Unlike `Date.UTC`, the setters don't map years 0 to 99 to 1900 to 1999.
+const makeUTCDate = (time: WallClockTime) => {
+  const date = new Date(0);
+
+  date.setUTCFullYear(time.year, time.month - 1, time.day);
+  date.setUTCHours(time.hour, time.minute, time.second, time.millisecond);
+
+  return date;
+};
+
+// Reads the time shown by the clocks of an IANA time zone, the local time zone by default, at an instant.
+const getWallClockTime = (date: Date, timeZone?: string): WallClockTime => {
+  if (typeof timeZone === 'undefined') {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+      millisecond: date.getMilliseconds(),
+    };
+  }
+
+  const format = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    era: 'short',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23',
+  });
+
+  const parts = Object.fromEntries(format.formatToParts(date).map((part) => [part.type, parseInt(part.value, 10)]));
+  const isBC = format.formatToParts(date).some((part) => part.type === 'era' && part.value === 'BC');
+
+  return {
+    year: isBC ? 1 - parts.year : parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+    millisecond: date.getUTCMilliseconds(),
+  };
+};
+
+// Finds the instant at which the clocks of an IANA time zone, the local time zone by default, show the time. The offset
+// is looked up at the time read as UTC first, then at the instant found, which settles it except around transitions.
+const makeDate = (time: WallClockTime, timeZone?: string) => {
+  if (typeof timeZone === 'undefined') {
+    const date = new Date(0);
+
+    date.setFullYear(time.year, time.month - 1, time.day);
+    date.setHours(time.hour, time.minute, time.second, time.millisecond);
+
+    return date;
+  }
+
+  const utc = makeUTCDate(time).getTime();
+
+  let date = new Date(utc);
+
+  for (let i = 0; i < 2; i++) {
+    const offset = makeUTCDate(getWallClockTime(date, timeZone)).getTime() - date.getTime();
+
+    date = new Date(utc - offset);
+  }
+
+  return date;
+};
+
+export class LocalDate {
+  private constructor(readonly year: number, readonly month: Month, readonly day: Day) {}
+
+  static of(year: number, month: number, day: number) {
+    if (!isYear(year) || !isMonth(month) || !isDay(day, year, month)) {
+      throw new TOMLError(`invalid local date (year ${year}, month ${month}, day ${day})`, {
+        code: 'INVALID_DATE_TIME',
+      });
+    }
+
+    return new LocalDate(year, month, day);
+  }
+
+  // Takes the date in an IANA time zone, the local time zone by default.
+  static fromDate(date: Date, timeZone?: string) {
+    const { year, month, day } = getWallClockTime(date, timeZone);
+
+    return LocalDate.of(year, month, day);
+  }
+
+  static fromString(value: string) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      throw new TOMLError(`invalid local date format "${value}"`, { code: 'INVALID_DATE_TIME' });
+    }
+
+    const [year, month, day] = value.split('-').map((component) => parseInt(component, 10));
+
+    if (!isYear(year) || !isMonth(month) || !isDay(day, year, month)) {
+      throw new TOMLError(`invalid local date format "${value}"`, { code: 'INVALID_DATE_TIME' });
+    }
+
+    return new LocalDate(year, month, day);
+  }
+
+  // Returns the start of the day in an IANA time zone, the local time zone by default.
+  toDate(timeZone?: string) {
+    const { year, month, day } = this;
+
+    return makeDate({ year, month, day, hour: 0, minute: 0, second: 0, millisecond: 0 }, timeZone);
+  }
+
+  equals(other: LocalDate) {
+    return this.compare(other) === 0;
+  }
+
+  // Returns a negative number if the date is before the other one, a positive one if it's after, and 0 otherwise, as
+  // expected by `Array.prototype.sort`.
+  compare(other: LocalDate) {
+    return compareComponents([this.year, this.month, this.day], [other.year, other.month, other.day]);
+  }
+
+  toString(): string {
+    return formatDate(this);
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+}
+
 export class LocalTime {
+  readonly millisecond: number;
+
   private constructor(
     readonly hour: Hour,
     readonly minute: Minute,
     readonly second: Second,
-    readonly millisecond: number,
+    readonly nanosecond: number,
   ) {
-    // If the value contains greater precision than the implementation
-    // can support, the additional precision must be truncated, not rounded.
-    //
-    // https://toml.io/en/v1.0.0#local-time
-    this.millisecond = parseInt(millisecond.toString(10).slice(0, 3), 10);
+    this.millisecond = Math.floor(nanosecond / 1e6);
+  }
+
+  static of(hour: number, minute: number, second = 0, nanosecond = 0) {
+    if (!isHour(hour) || !isMinute(minute) || !isSecond(second) || !isNanosecond(nanosecond)) {
+      throw new TOMLError(
+        `invalid local time (hour ${hour}, minute ${minute}, second ${second}, nanosecond ${nanosecond})`,
+        { code: 'INVALID_DATE_TIME' },
+      );
+    }
+
+    return new LocalTime(hour, minute, second, nanosecond);
+  }
+
+  // Takes the time in an IANA time zone, the local time zone by default.
+  static fromDate(date: Date, timeZone?: string) {
+    const { hour, minute, second, millisecond } = getWallClockTime(date, timeZone);
+
+    return LocalTime.of(hour, minute, second, millisecond * 1e6);
   }
 
   static fromString(value: string) {
     if (!/^\d{2}:\d{2}:\d{2}(\.\d+)?$/.test(value)) {
-      throw new TOMLError(`invalid local time format "${value}"`);
+      throw new TOMLError(`invalid local time format "${value}"`, { code: 'INVALID_DATE_TIME' });
     }
 
     const components = value.split(':');
 
     const [hour, minute] = components.slice(0, 2).map((component) => parseInt(component, 10));
-    const [second, millisecond] = components[2].split('.').map((component) => parseInt(component, 10));
+    const [seconds, fraction] = components[2].split('.');
+    const second = parseInt(seconds, 10);
 
     if (!isHour(hour) || !isMinute(minute) || !isSecond(second)) {
-      throw new TOMLError(`invalid local time format "${value}"`);
+      throw new TOMLError(`invalid local time format "${value}"`, { code: 'INVALID_DATE_TIME' });
     }
 
-    return new LocalTime(hour, minute, second, isNaN(millisecond) ? 0 : millisecond);
+    return new LocalTime(hour, minute, second, parseFraction(fraction));
+  }
+
+  equals(other: LocalTime) {
+    return this.compare(other) === 0;
+  }
+
+  // Returns a negative number if the time is before the other one, a positive one if it's after, and 0 otherwise, as
+  // expected by `Array.prototype.sort`.
+  compare(other: LocalTime) {
+    return compareComponents(
+      [this.hour, this.minute, this.second, this.nanosecond],
+      [other.hour, other.minute, other.second, other.nanosecond],
+    );
+  }
+
+  toString(): string {
+    return formatTime(this);
+  }
+
+  toJSON(): string {
+    return this.toString();
   }
 }
 
 export class LocalDateTime {
+  readonly millisecond: number;
+
   private constructor(
     readonly year: number,
     readonly month: Month,
@@ -207,8 +436,24 @@ export class LocalDateTime {
     readonly hour: Hour,
     readonly minute: Minute,
     readonly second: Second,
-    readonly millisecond: number,
-  ) {}
+    readonly nanosecond: number,
+  ) {
+    this.millisecond = Math.floor(nanosecond / 1e6);
+  }
+
+  static of(year: number, month: number, day: number, hour: number, minute: number, second = 0, nanosecond = 0) {
+    const date = LocalDate.of(year, month, day);
+    const time = LocalTime.of(hour, minute, second, nanosecond);
+
+    return new LocalDateTime(date.year, date.month, date.day, time.hour, time.minute, time.second, time.nanosecond);
+  }
+
+  // Takes the date and time in an IANA time zone, the local time zone by default.
+  static fromDate(date: Date, timeZone?: string) {
+    const { year, month, day, hour, minute, second, millisecond } = getWallClockTime(date, timeZone);
+
+    return LocalDateTime.of(year, month, day, hour, minute, second, millisecond * 1e6);
+  }
 
   static fromString(value: string) {
     // Per [...] ISO8601, the "T" [...] in this syntax may alternatively be lower case "t" [...]
@@ -222,12 +467,117 @@ export class LocalDateTime {
     const components = value.split(/[tT ]/);
 
     if (components.length !== 2) {
-      throw new TOMLError(`invalid local date-time format "${value}"`);
+      throw new TOMLError(`invalid local date-time format "${value}"`, { code: 'INVALID_DATE_TIME' });
     }
 
     const date = LocalDate.fromString(components[0]);
     const time = LocalTime.fromString(components[1]);
 
-    return new LocalDateTime(date.year, date.month, date.day, time.hour, time.minute, time.second, time.millisecond);
+    return new LocalDateTime(date.year, date.month, date.day, time.hour, time.minute, time.second, time.nanosecond);
+  }
+
+  // Returns the instant at which the clocks of an IANA time zone, the local time zone by default, show the date-time,
+  // truncated to milliseconds.
+  toDate(timeZone?: string) {
+    return makeDate(this, timeZone);
+  }
+
+  equals(other: LocalDateTime) {
+    return this.compare(other) === 0;
+  }
+
+  // Returns a negative number if the date-time is before the other one, a positive one if it's after, and 0 otherwise,
+  // as expected by `Array.prototype.sort`.
+  compare(other: LocalDateTime) {
+    return compareComponents(
+      [this.year, this.month, this.day, this.hour, this.minute, this.second, this.nanosecond],
+      [other.year, other.month, other.day, other.hour, other.minute, other.second, other.nanosecond],
+    );
+  }
+
+  toString(): string {
+    return `${formatDate(this)}T${formatTime(this)}`;
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+}
+
+// Unlike `Date`, keeps the offset the date-time has been written with, and fractions of seconds beyond milliseconds.
+//
+// https://toml.io/en/v1.0.0#offset-date-time
+export class OffsetDateTime {
+  readonly millisecond: number;
+
+  private constructor(
+    readonly year: number,
+    readonly month: Month,
+    readonly day: Day,
+    readonly hour: Hour,
+    readonly minute: Minute,
+    readonly second: Second,
+    readonly nanosecond: number,
+    // The offset from UTC in minutes, e.g. `-420` for `-07:00`.
+    readonly offset: number,
+  ) {
+    this.millisecond = Math.floor(nanosecond / 1e6);
+  }
+
+  static fromString(value: string) {
+    const match = /^(.+?)([zZ]|([+-])(\d{2}):(\d{2}))$/.exec(value);
+
+    if (!match) {
+      throw new TOMLError(`invalid offset date-time format "${value}"`, { code: 'INVALID_DATE_TIME' });
+    }
+
+    const [, dateTime, , sign, hours, minutes] = match;
+
+    let localDateTime: LocalDateTime;
+
+    try {
+      localDateTime = LocalDateTime.fromString(dateTime);
+    } catch {
+      throw new TOMLError(`invalid offset date-time format "${value}"`, { code: 'INVALID_DATE_TIME' });
+    }
+
+    const offsetHour = hours ? parseInt(hours, 10) : 0;
+    const offsetMinute = minutes ? parseInt(minutes, 10) : 0;
+
+    if (!isHour(offsetHour) || !isMinute(offsetMinute)) {
+      throw new TOMLError(`invalid offset date-time format "${value}"`, { code: 'INVALID_DATE_TIME' });
+    }
+
+    const offset = (sign === '-' ? -1 : 1) * (offsetHour * 60 + offsetMinute);
+    const { year, month, day, hour, minute, second, nanosecond } = localDateTime;
+
+    // `-00:00` is the same instant as `+00:00`, hence no negative zero.
+    return new OffsetDateTime(year, month, day, hour, minute, second, nanosecond, offset || 0);
+  }
+
+  // Loses the offset and truncates fractions of seconds to milliseconds.
+  toDate() {
+    const { year, month, day, hour, minute, second, millisecond } = this;
+
+    return makeUTCDate({ year, month, day, hour, minute: minute - this.offset, second, millisecond });
+  }
+
+  toISOString() {
+    if (this.offset === 0) {
+      return `${formatDate(this)}T${formatTime(this)}Z`;
+    }
+
+    const offset = Math.abs(this.offset);
+    const sign = this.offset < 0 ? '-' : '+';
+
+    return `${formatDate(this)}T${formatTime(this)}${sign}${pad(Math.floor(offset / 60))}:${pad(offset % 60)}`;
+  }
+
+  toString(): string {
+    return this.toISOString();
+  }
+
+  toJSON(): string {
+    return this.toISOString();
   }
 }
@@ -1,9 +1,12 @@
+import type { Position } from './ast.js';
+import { TOMLError } from './errors.js';
+
 export const isDecimal = (char: string) => {
   return '0' <= char && char <= '9';
 };
 
 export const isHexadecimal = (char: string) => {
-  return ('A' <= char && char <= 'Z') || ('a' <= char && char <= 'z') || ('0' <= char && char <= '9');
+  return ('A' <= char && char <= 'F') || ('a' <= char && char <= 'f') || ('0' <= char && char <= '9');
 };
 
 export const isOctal = (char: string) => {
@@ -13,3 +16,96 @@ export const isOctal = (char: string) => {
 export const isBinary = (char: string) => {
   return char === '0' || char === '1';
 };
+
+// Bare keys may only contain ASCII letters, ASCII digits, underscores, and dashes (A-Za-z0-9_-).
+//
+// https://toml.io/en/v1.0.0#keys
+export const isBareKey = (key: string) => {
+  return /^[A-Za-z0-9_-]+$/.test(key);
+};
+
+// Renders the line containing the given position with a caret pointing at the column, e.g.
+//
+// 2 | port = 80 80
+//   |           ^
+export const makeCodeFrame = (input: string, position: Position) => {
+  const lineStart = position.offset - position.column + 1;
+  const lineEnd = input.indexOf('\n', position.offset);
+
+  const line = input.slice(lineStart, lineEnd === -1 ? input.length : lineEnd).replace(/\r$/, '');
+  const gutter = position.line.toString(10);
+  const indent = line.slice(0, position.column - 1).replace(/[^\t]/g, ' ');
+
+  return `${gutter} | ${line}\n${' '.repeat(gutter.length)} | ${indent}^`;
+};
+
+// Errors raised after parsing, e.g. while normalizing, carry a position but no code frame, which is added here.
+export const withCodeFrame = <T>(input: string, callback: () => T): T => {
+  try {
+    return callback();
+  } catch (err) {
+    if (err instanceof TOMLError && err.position && !err.frame) {
+      const { reason, code, position } = err;
+
+      throw new TOMLError(reason, { code, position, frame: makeCodeFrame(input, position) });
+    }
+
+    throw err;
+  }
+};
+
+const getPositionAt = (input: string, offset: number): Position => {
+  const lines = input.slice(0, offset).split('\n');
+
+  return { offset, line: lines.length, column: lines[lines.length - 1].length + 1 };
+};
+
+// A TOML file must be a valid UTF-8 encoded Unicode document.
+//
+// https://toml.io/en/v1.0.0#spec
+export const decodeUTF8 = (buffer: Uint8Array) => {
+  try {
+    // The byte order mark is stripped by the decoder.
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    // The bytes are decoded one by one up to the first invalid sequence, as the input may contain U+FFFD, which
+    // invalid sequences are replaced with when decoding leniently.
+    const decoder = new TextDecoder('utf-8', { fatal: true });
+
+    let prefix = '';
+
+    try {
+      for (const byte of buffer) {
+        prefix += decoder.decode(Uint8Array.of(byte), { stream: true });
+      }
+
+      decoder.decode();
+    } catch {
+      // The valid prefix of the input has been decoded.
+    }
+
+    const input = new TextDecoder('utf-8').decode(buffer);
+    const position = getPositionAt(input, prefix.length);
+
+    throw new TOMLError('invalid UTF-8 byte sequence', {
+      code: 'INVALID_ENCODING',
+      position,
+      frame: makeCodeFrame(input, position),
+    });
+  }
+};
+
+// Attaches the name of the file being decoded to the errors raised.
+export const withFile = <T>(file: string, callback: () => T): T => {
+  try {
+    return callback();
+  } catch (err) {
+    if (err instanceof TOMLError) {
+      const { reason, code, position, frame } = err;
+
+      throw new TOMLError(reason, { code, position, frame, file });
+    }
+
+    throw err;
+  }
+};
@@ -0,0 +1,63 @@
+import type { Value } from './normalizer.js';
+import { LocalDate, LocalDateTime, LocalTime, OffsetDateTime } from './types.js';
+
+export const isTable = (value: Value | undefined): value is Record<string, Value> => {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date) &&
+    !(value instanceof OffsetDateTime) &&
+    !(value instanceof LocalDateTime) &&
+    !(value instanceof LocalDate) &&
+    !(value instanceof LocalTime)
+  );
+};
+
+// Describes a value by its TOML type, for the purpose of error messages.
+//
+// https://toml.io/en/v1.0.0
+export const describeValue = (value: Value | undefined) => {
+  if (typeof value === 'undefined') {
+    return 'nothing';
+  }
+
+  // Returned by revivers or hooks only.
+  if (value === null) {
+    return 'null';
+  }
+
+  if (typeof value === 'string') {
+    return 'a string';
+  }
+
+  if (typeof value === 'bigint') {
+    return 'an integer';
+  }
+
+  if (typeof value === 'number') {
+    return 'a float';
+  }
+
+  if (typeof value === 'boolean') {
+    return 'a boolean';
+  }
+
+  if (value instanceof Date || value instanceof OffsetDateTime) {
+    return 'an offset date-time';
+  }
+
+  if (value instanceof LocalDateTime) {
+    return 'a local date-time';
+  }
+
+  if (value instanceof LocalDate) {
+    return 'a local date';
+  }
+
+  if (value instanceof LocalTime) {
+    return 'a local time';
+  }
+
+  return Array.isArray(value) ? 'an array' : 'a table';
+};
@@ -0,0 +1,175 @@
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+
+const cli = fileURLToPath(new URL('../dist/cli.js', import.meta.url));
+const directory = mkdtempSync(join(tmpdir(), 'toml-cli-'));
+
+after(() => rmSync(directory, { recursive: true, force: true }));
+
+// Runs the command with the given standard input, returning its exit code and outputs.
+const toml = (args, input = '') => {
+  const { status, stdout, stderr } = spawnSync(process.execPath, [cli, ...args], { input, encoding: 'utf-8' });
+
+  return { status, stdout, stderr };
+};
+
+const writeFile = (name, text) => {
+  const file = join(directory, name);
+
+  writeFileSync(file, text);
+
+  return file;
+};
+
+const config = `title = "example"
+
+[servers.alpha]
+ip = "10.0.0.1"
+ports = [8080, 8443]
+
+[[products]]
+"display name" = "Hammer"
+`;
+
+describe('toml', () => {
+  it('prints usage, and fails on unknown commands', () => {
+    assert.match(toml(['--help']).stdout, /^Usage: toml <command>/);
+
+    const { status, stderr } = toml(['frobnicate']);
+
+    assert.equal(status, 2);
+    assert.match(stderr, /^toml: unknown command "frobnicate"/);
+  });
+
+  describe('get', () => {
+    const file = writeFile('get.toml', config);
+
+    it('prints values at dotted keys', () => {
+      assert.deepEqual(toml(['get', file, 'servers.alpha.ip']), { status: 0, stdout: '10.0.0.1\n', stderr: '' });
+      assert.equal(toml(['get', file, 'servers.alpha.ports']).stdout, '[ 8080, 8443 ]\n');
+      assert.equal(toml(['get', file, 'servers.alpha']).stdout, 'ip = "10.0.0.1"\nports = [ 8080, 8443 ]\n');
+      assert.equal(toml(['get', file, 'products.0."display name"', '--json']).stdout, '"Hammer"\n');
+      assert.equal(toml(['get', 'title'], config).stdout, 'example\n');
+    });
+
+    it('fails on missing keys and invalid documents', () => {
+      assert.deepEqual(toml(['get', file, 'servers.beta']), {
+        status: 1,
+        stdout: '',
+        stderr: 'toml: key servers.beta not found\n',
+      });
+
+      const { status, stderr } = toml(['get', writeFile('invalid.toml', 'a = \n'), 'a']);
+
+      assert.equal(status, 1);
+      assert.ok(stderr.startsWith(`expected a value, found newline (${join(directory, 'invalid.toml')}:1:5)`), stderr);
+    });
+  });
+
+  describe('to-json and from-json', () => {
+    it('converts documents to JSON and back', () => {
+      const json = toml(['to-json'], config).stdout;
+
+      assert.deepEqual(JSON.parse(json), {
+        title: 'example',
+        servers: { alpha: { ip: '10.0.0.1', ports: [8080, 8443] } },
+        products: [{ 'display name': 'Hammer' }],
+      });
+      assert.equal(toml(['to-json'], toml(['from-json'], json).stdout).stdout, json);
+    });
+
+    it('keeps the types and offsets of values in tagged JSON', () => {
+      const input = 'a = 1\nb = 1.0\nc = 1979-05-27T00:32:00-07:00\nd = 9007199254740993\n';
+      const json = toml(['to-json', '--tagged'], input).stdout;
+
+      assert.deepEqual(JSON.parse(json), {
+        a: { type: 'integer', value: '1' },
+        b: { type: 'float', value: '1.0' },
+        c: { type: 'datetime', value: '1979-05-27T00:32:00-07:00' },
+        d: { type: 'integer', value: '9007199254740993' },
+      });
+      assert.equal(toml(['from-json', '--tagged'], json).stdout, input);
+    });
+
+    it('reads integers from their spelling', () => {
+      const { stdout } = toml(['from-json'], '{ "a": 1, "b": 1.0, "c": 9007199254740993, "d": "1", "e": [-2e3] }');
+
+      assert.equal(stdout, 'a = 1\nb = 1.0\nc = 9007199254740993\nd = "1"\ne = [ -2000.0 ]\n');
+    });
+
+    it('fails on invalid JSON', () => {
+      assert.equal(toml(['from-json'], '{').status, 1);
+      assert.match(toml(['from-json'], '[1]').stderr, /^the root value must be an object/);
+    });
+  });
+
+  describe('validate', () => {
+    const schema = writeFile('schema.json', JSON.stringify({ properties: { port: { type: 'integer', minimum: 1 } } }));
+
+    it('exits with 0 for valid documents', () => {
+      assert.deepEqual(toml(['validate'], 'port = 80\n'), { status: 0, stdout: '', stderr: '' });
+      assert.equal(toml(['validate', '--schema', schema], 'port = 80\n').status, 0);
+      assert.equal(toml(['validate', '--toml-version', '1.1'], 'a = { b = 1, }\n').status, 0);
+    });
+
+    it('exits with 1 reporting every error', () => {
+      const { status, stderr } = toml(['validate'], 'a = "x\nb = 1\nb = 2\n');
+
+      assert.equal(status, 1);
+      assert.deepEqual(
+        stderr.split('\n').filter((line) => /\(\d+:\d+\)$/.test(line)),
+        ['unterminated basic string (1:5)', 'duplicate key "b" (3:1)'],
+      );
+    });
+
+    it('exits with 1 for documents not matching the schema', () => {
+      const file = writeFile('port.toml', 'port = 0\n');
+      const { status, stderr } = toml(['validate', file, '--schema', schema]);
+
+      assert.equal(status, 1);
+      assert.match(stderr, new RegExp(`^${file}: port: `));
+    });
+
+    it('names the schema file when it cannot be read', () => {
+      const invalid = writeFile('invalid.json', '{');
+
+      for (const file of [invalid, join(directory, 'missing.json')]) {
+        const { status, stderr } = toml(['validate', '--schema', file], 'port = 80\n');
+
+        assert.equal(status, 1);
+        assert.ok(stderr.startsWith('invalid JSON Schema: ') && stderr.trimEnd().endsWith(`(${file})`), stderr);
+      }
+    });
+  });
+
+  describe('fmt', () => {
+    const unformatted = 'a=1\n[t]\nb   =  "c" # comment\n';
+    const formatted = 'a = 1\n\n[t]\nb = "c" # comment\n';
+
+    it('prints formatted documents', () => {
+      assert.deepEqual(toml(['fmt'], unformatted), { status: 0, stdout: formatted, stderr: '' });
+    });
+
+    it('checks that documents are formatted', () => {
+      assert.equal(toml(['fmt', '--check'], formatted).status, 0);
+      assert.deepEqual(toml(['fmt', '--check'], unformatted), {
+        status: 1,
+        stdout: '',
+        stderr: 'toml: the standard input is not formatted\n',
+      });
+    });
+
+    it('overwrites files', () => {
+      const file = writeFile('fmt.toml', unformatted);
+
+      assert.deepEqual(toml(['fmt', file, '--write']), { status: 0, stdout: '', stderr: '' });
+      assert.equal(readFileSync(file, 'utf-8'), formatted);
+      assert.equal(toml(['fmt', '--write'], unformatted).status, 2);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { decode, decodeWithDiagnostics, OffsetDateTime, TOMLError } from '../dist/index.js';
+
+describe('decode', () => {
+  describe('integers', () => {
+    const input = 'a = 9007199254740991\nb = -9007199254740991\nc = [0x10, { d = 0o17 }]\ne = 1.0\n';
+
+    it('decodes integers as bigints by default', () => {
+      assert.deepEqual(decode(input), { a: 9007199254740991n, b: -9007199254740991n, c: [16n, { d: 15n }], e: 1 });
+      assert.deepEqual(decode(input, { integers: 'bigint' }), decode(input));
+      assert.equal(decode('a = 9223372036854775807').a, 2n ** 63n - 1n);
+    });
+
+    it('decodes integers as numbers, rounding those beyond the safe range', () => {
+      const value = { a: 9007199254740991, b: -9007199254740991, c: [16, { d: 15 }], e: 1 };
+
+      assert.deepEqual(decode(input, { integers: 'number' }), value);
+      assert.deepEqual(decode(input, { integers: 'safe' }), value);
+      assert.equal(decode('a = 9007199254740993', { integers: 'number' }).a, 9007199254740992);
+    });
+
+    it('throws on integers beyond the safe range in safe mode', () => {
+      for (const [text, column] of [
+        ['a = 9007199254740992', 5],
+        ['a = -9007199254740992', 5],
+        ['a = [1, 0x20000000000000]', 9],
+      ]) {
+        assert.throws(
+          () => decode(text, { integers: 'safe' }),
+          (err) => err instanceof TOMLError && err.code === 'INTEGER_OUT_OF_RANGE' && err.column === column,
+          text,
+        );
+      }
+
+      assert.throws(
+        () => decode('a = 9007199254740992', { integers: 'safe' }),
+        /^TOMLError: integer 9007199254740992 cannot be represented as a number losslessly \(1:5\)/,
+      );
+    });
+
+    it('reports integers beyond the safe range as diagnostics', () => {
+      const { value, diagnostics } = decodeWithDiagnostics('a = 9007199254740992\nb = 1\n', { integers: 'safe' });
+
+      assert.deepEqual(value, { b: 1 });
+      assert.deepEqual(
+        diagnostics.map(({ code }) => code),
+        ['INTEGER_OUT_OF_RANGE'],
+      );
+    });
+  });
+
+  describe('reviver and hooks', () => {
+    const input = 'a = [1, { b = "x" }]\n[t]\nc = 1979-05-27T00:00:00-07:00\nd = 1.5\n';
+
+    it('calls the hook of each value before the reviver, innermost first', () => {
+      const calls = [];
+
+      const value = decode(input, {
+        onInteger: (value) => {
+          calls.push(['onInteger', value]);
+
+          return value * 2n;
+        },
+        onString: (value, node) => {
+          calls.push(['onString', value, node.start.line]);
+
+          return value.toUpperCase();
+        },
+        reviver: (path, value, node) => {
+          calls.push(['reviver', path, node.type]);
+
+          return value;
+        },
+      });
+
+      assert.deepEqual(value, { a: [2n, { b: 'X' }], t: { c: new Date('1979-05-27T07:00:00Z'), d: 1.5 } });
+      assert.deepEqual(calls, [
+        ['onInteger', 1n],
+        ['reviver', ['a', 0], 'INTEGER'],
+        ['onString', 'x', 1],
+        ['reviver', ['a', 1, 'b'], 'STRING'],
+        ['reviver', ['a', 1], 'INLINE_TABLE'],
+        ['reviver', ['a'], 'ARRAY'],
+        ['reviver', ['t', 'c'], 'OFFSET_DATE_TIME'],
+        ['reviver', ['t', 'd'], 'FLOAT'],
+      ]);
+    });
+
+    it('passes values to the reviver after the hooks replaced them', () => {
+      const value = decode(input, {
+        onFloat: (value) => String(value),
+        reviver: (path, value) => (typeof value === 'string' ? `${path.join('.')}=${value}` : value),
+      });
+
+      assert.deepEqual(value.a[1], { b: 'a.1.b=x' });
+      assert.equal(value.t.d, 't.d=1.5');
+    });
+
+    it('removes values the reviver returns undefined for', () => {
+      const value = decode(input, {
+        reviver: (path, value) => (path.at(-1) === 1 || path[1] === 'd' ? undefined : value),
+      });
+
+      assert.deepEqual(value, { a: [1n], t: { c: new Date('1979-05-27T07:00:00Z') } });
+    });
+
+    it('gives integers and offset date-times to hooks losslessly', () => {
+      const calls = [];
+
+      decode('a = 9007199254740993\nb = 1979-05-27T00:00:00.123456789-07:00\n', {
+        integers: 'number',
+        onInteger: (value) => calls.push(value),
+        onOffsetDateTime: (value) => calls.push(value),
+      });
+
+      assert.deepEqual(calls, [9007199254740993n, OffsetDateTime.fromString('1979-05-27T00:00:00.123456789-07:00')]);
+    });
+
+    it('does not apply the integer mode to values returned by hooks', () => {
+      const value = decode('a = 9007199254740993', { integers: 'safe', onInteger: (value) => value.toString() });
+
+      assert.deepEqual(value, { a: '9007199254740993' });
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { TOMLDocument } from '../dist/index.js';
+
+const edit = (input, cb) => {
+  const document = new TOMLDocument(input);
+
+  cb(document);
+
+  return document.toString();
+};
+
+describe('TOMLDocument', () => {
+  describe('get', () => {
+    it('returns the values at paths, and undefined below values that are not tables nor arrays', () => {
+      const document = new TOMLDocument('a = 1\nb = [{ c = 2 }]\n', {
+        reviver: (path, value) => (path[0] === 'a' ? null : value),
+      });
+
+      assert.equal(document.get(['b', 0, 'c']), 2n);
+      assert.equal(document.get(['a']), null);
+      assert.equal(document.get(['a', 'c']), undefined);
+      assert.equal(document.has(['a', 'c']), false);
+    });
+  });
+
+  describe('delete', () => {
+    it('removes elements of arrays and inline tables with one adjacent comma', () => {
+      assert.equal(
+        edit('a = [1, 2, 3]\n', (document) => document.delete(['a', 1])),
+        'a = [1, 3]\n',
+      );
+      assert.equal(
+        edit('a = [1, 2, 3]\n', (document) => document.delete(['a', 2])),
+        'a = [1, 2]\n',
+      );
+      assert.equal(
+        edit('t = { c.d = 3, a = 1, c.e = 4 }\n', (document) => document.delete(['t', 'c'])),
+        't = { a = 1 }\n',
+      );
+      assert.equal(
+        edit('t = { a = 1 }\n', (document) => document.delete(['t', 'a'])),
+        't = {}\n',
+      );
+    });
+
+    it('keeps the comments and layout of arrays spanning several lines', () => {
+      const input = 'a = [\n  1, # one\n  2, # two\n  # three\n  3\n]\n';
+
+      assert.equal(
+        edit(input, (document) => document.delete(['a', 1])),
+        'a = [\n  1, # one\n  # three\n  3\n]\n',
+      );
+      assert.equal(
+        edit(input, (document) => document.delete(['a', 2])),
+        'a = [\n  1, # one\n  2 # two\n  # three\n]\n',
+      );
+    });
+  });
+
+  describe('set', () => {
+    it('rewrites the body of tables defined by headers where they are', () => {
+      const input =
+        'a = 1\n\n# server\n[server] # main\nhost = "x"\nport = 1\n\n[server.tls]\ncert = "c"\n\n[other]\nb = 2\n';
+
+      assert.equal(
+        edit(input, (document) => document.set(['server'], { host: 'y', tls: { enabled: true } })),
+        'a = 1\n\n# server\n[server] # main\nhost = "y"\ntls = { enabled = true }\n\n[other]\nb = 2\n',
+      );
+    });
+
+    it('replaces tables defined by headers set to other values', () => {
+      assert.equal(
+        edit('[t]\na = 1\n', (document) => document.set(['t'], 5n)),
+        't = 5\n',
+      );
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  decode,
+  encode,
+  encodeValue,
+  LocalDate,
+  LocalDateTime,
+  LocalTime,
+  OffsetDateTime,
+  TOMLError,
+} from '../dist/index.js';
+
+describe('encode', () => {
+  it('writes key/value pairs first, then tables and arrays of tables', () => {
+    const value = {
+      title: 'TOML',
+      owner: { name: 'Tom', dob: new Date('1979-05-27T15:32:00Z') },
+      servers: { alpha: { ip: '10.0.0.1' }, beta: { ip: '10.0.0.2' } },
+      empty: {},
+      products: [{ name: 'Hammer' }, { name: 'Nail', tags: [] }],
+      ports: [8000n, 8001n],
+      point: [{ x: 1n }, 2n],
+    };
+
+    assert.equal(
+      encode(value),
+      `title = "TOML"
+ports = [ 8000, 8001 ]
+point = [ { x = 1 }, 2 ]
+
+[owner]
+name = "Tom"
+dob = 1979-05-27T15:32:00.000Z
+
+[servers.alpha]
+ip = "10.0.0.1"
+
+[servers.beta]
+ip = "10.0.0.2"
+
+[empty]
+
+[[products]]
+name = "Hammer"
+
+[[products]]
+name = "Nail"
+tags = []
+`,
+    );
+    assert.equal(encode({}), '');
+  });
+
+  it('round-trips through decode', () => {
+    const value = {
+      'string': 'a "quoted"\\ string\twith\nescapes \u0000 \u007f and 🎉',
+      'integers': [0n, -1n, 9007199254740993n, -(2n ** 63n), 2n ** 63n - 1n],
+      'floats': [0.1, -0, 1e21, 5e-324, Number.MAX_VALUE, Infinity, -Infinity],
+      'boolean': false,
+      'dates': [
+        OffsetDateTime.fromString('1979-05-27T00:32:00.999999-07:00'),
+        LocalDateTime.fromString('1979-05-27T07:32:00'),
+        LocalDate.fromString('1979-05-27'),
+        LocalTime.fromString('00:32:00.5'),
+      ],
+      'quoted key': { 'a.b': { c: [{ d: {} }] } },
+      '': 'empty key',
+    };
+
+    assert.deepEqual(decode(encode(value), { offsetDateTimes: 'offset-date-time' }), value);
+  });
+
+  it('writes NaN and negative zero', () => {
+    assert.equal(encode({ a: NaN, b: -0 }), 'a = nan\nb = -0.0\n');
+    assert.ok(Object.is(decode(encode({ b: -0 })).b, -0));
+  });
+
+  it('throws on values that cannot be represented', () => {
+    for (const value of [
+      { a: 2n ** 63n },
+      { a: -(2n ** 63n) - 1n },
+      { a: null },
+      { a: undefined },
+      { a: [undefined] },
+      { a: new Date(NaN) },
+      { a: () => {} },
+    ]) {
+      assert.throws(() => encode(value), TOMLError, String(Object.values(value)[0]));
+    }
+
+    assert.throws(() => encode([]), /^TOMLError: the root value must be a table/);
+    assert.throws(() => encode({ a: { b: undefined } }), /unsupported value of type undefined at key "a.b"/);
+  });
+});
+
+describe('encodeValue', () => {
+  it('encodes values as they would be written after an equal sign', () => {
+    assert.equal(encodeValue(1n), '1');
+    assert.equal(encodeValue(1), '1.0');
+    assert.equal(encodeValue(1.5e-7), '1.5e-7');
+    assert.equal(encodeValue('\u001b'), '"\\u001b"');
+    assert.equal(encodeValue({ 'a b': [true] }), '{ "a b" = [ true ] }');
+    assert.equal(encodeValue([]), '[]');
+    assert.equal(encodeValue({}), '{}');
+  });
+});
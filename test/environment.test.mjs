@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { overlayEnvironment, TOMLError } from '../dist/index.js';
+
+const document = {
+  port: 80n,
+  ratio: 1.5,
+  debug: false,
+  name: 'app',
+  database: { 'max-connections': 5n, 'hosts': ['db1'] },
+  products: [{ name: 'Hammer' }],
+};
+
+describe('overlayEnvironment', () => {
+  it('overrides values named by variables following the prefix', () => {
+    const environment = {
+      APP__PORT: '8080',
+      APP__RATIO: '2',
+      APP__NAME: ' web ',
+      APP__DATABASE__MAX_CONNECTIONS: '10',
+      APP__DATABASE__HOSTS: '["db1", "db2"]',
+      APP__PRODUCTS__0__NAME: 'Nail',
+      APP__UNKNOWN: '1',
+      OTHER__PORT: '1',
+    };
+
+    assert.deepEqual(overlayEnvironment(document, environment, { prefix: 'APP' }), {
+      port: 8080n,
+      ratio: 2,
+      debug: false,
+      name: ' web ',
+      database: { 'max-connections': 10n, 'hosts': ['db1', 'db2'] },
+      products: [{ name: 'Nail' }],
+    });
+    assert.equal(document.port, 80n);
+  });
+
+  it('ignores whitespace surrounding values other than strings', () => {
+    const environment = { APP_PORT: ' 8080\n', APP_DEBUG: '\ttrue ' };
+
+    assert.deepEqual(overlayEnvironment(document, environment, { prefix: 'APP', separator: '_' }), {
+      ...document,
+      port: 8080n,
+      debug: true,
+    });
+  });
+
+  it('names the variable holding an invalid value', () => {
+    for (const [value, reason] of [
+      ['eighty', 'invalid number "eighty"'],
+      ['"80"', 'expected an integer, found a string'],
+    ]) {
+      assert.throws(
+        () => overlayEnvironment(document, { APP__PORT: value }, { prefix: 'APP' }),
+        (err) => err instanceof TOMLError && err.reason === `APP__PORT: ${reason}` && err.file === undefined,
+      );
+    }
+  });
+
+  describe('with integers decoded as numbers', () => {
+    const numbers = { port: 80, ratio: 1.5, ports: [80, 443], limits: { connections: 5, timeout: 1.5 } };
+
+    it('decodes the integers of arrays and tables alike', () => {
+      const environment = { APP__PORTS: '[8080, 8443]', APP__LIMITS: '{ connections = 10, timeout = 2, retries = 3 }' };
+      const value = overlayEnvironment(numbers, environment, { prefix: 'APP', integers: 'number' });
+
+      assert.deepEqual(value, {
+        ...numbers,
+        ports: [8080, 8443],
+        limits: { connections: 10, timeout: 2, retries: 3 },
+      });
+      assert.equal(JSON.stringify(value.ports), '[8080,8443]');
+    });
+
+    it('decodes the integers of arrays alike without the option', () => {
+      assert.deepEqual(overlayEnvironment({ a: [1, 2] }, { APP__A: '[3, 4]' }, { prefix: 'APP' }), { a: [3, 4] });
+    });
+
+    it('checks the type of every element', () => {
+      for (const [name, value, reason] of [
+        ['APP__PORT', '80.5', 'expected an integer, found a float'],
+        ['APP__PORTS', '[8080, "8443"]', 'expected an integer, found a string'],
+        ['APP__LIMITS', '{ connections = 1.5 }', 'expected an integer, found a float'],
+        ['APP__PORT', '9007199254740993', 'integer 9007199254740993 cannot be represented as a number losslessly'],
+      ]) {
+        assert.throws(
+          () => overlayEnvironment(numbers, { [name]: value }, { prefix: 'APP', integers: 'safe' }),
+          (err) => err instanceof TOMLError && err.reason === `${name}: ${reason}`,
+        );
+      }
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { decode, TOMLError, TOMLValidationError } from '../dist/index.js';
+
+const catchError = (cb) => {
+  try {
+    cb();
+  } catch (err) {
+    return err;
+  }
+
+  assert.fail('expected an error');
+};
+
+const getOffset = (input, line, column) => {
+  return input
+    .split('\n')
+    .slice(0, line - 1)
+    .reduce((offset, text) => offset + text.length + 1, column - 1);
+};
+
+describe('TOMLError', () => {
+  it('gives the reason, code and position of decoding errors', () => {
+    for (const [input, code, reason, line, column] of [
+      ['a = @', 'UNEXPECTED_CHARACTER', 'unexpected character "@"', 1, 5],
+      ['a = "x', 'UNTERMINATED_STRING', 'unterminated basic string', 1, 5],
+      ['a = """x', 'UNTERMINATED_STRING', 'unterminated multiline basic string', 1, 5],
+      ["a = 'x", 'UNTERMINATED_STRING', 'unterminated literal string', 1, 5],
+      ['a = "\\q"', 'INVALID_ESCAPE_SEQUENCE', 'invalid escape sequence \\q', 1, 6],
+      ['a = "\u0001"', 'INVALID_CONTROL_CHARACTER', 'control character U+0001 must be escaped in basic strings', 1, 6],
+      ['"""a""" = 1', 'INVALID_KEY', 'multiline strings are not allowed as keys', 1, 1],
+      ['a = 1__2', 'INVALID_NUMBER', 'underscores must be surrounded by digits in "1__2"', 1, 5],
+      ['a = 07', 'INVALID_NUMBER', 'leading zeros are not allowed in "07"', 1, 5],
+      [
+        'a = 9223372036854775808',
+        'INTEGER_OUT_OF_RANGE',
+        'integer 9223372036854775808 is out of the 64-bit range',
+        1,
+        5,
+      ],
+      ['a = 1979-02-30', 'INVALID_DATE_TIME', 'invalid local date format "1979-02-30"', 1, 5],
+      ['a = 1\na = 2', 'DUPLICATE_KEY', 'duplicate key "a"', 2, 1],
+      ['a.b = 1\na = 2', 'DUPLICATE_KEY', 'key "a" is already defined as a table', 2, 1],
+      ['[t]\n[t]', 'DUPLICATE_TABLE', 'duplicate table "t"', 2, 2],
+      ['a = { b = 1 }\n[a]', 'DUPLICATE_TABLE', 'table "a" is already defined as a value', 2, 2],
+      ['a = [1\nb = 2', 'UNEXPECTED_TOKEN', 'expected "]", found "b"', 2, 1],
+      ['a = 1 b', 'UNEXPECTED_TOKEN', 'expected newline or end of input, found "b"', 1, 7],
+      ['= 1', 'UNEXPECTED_TOKEN', 'expected a key, found "="', 1, 1],
+    ]) {
+      const err = catchError(() => decode(input));
+
+      assert.ok(err instanceof TOMLError, input);
+      assert.deepEqual([err.code, err.reason, err.line, err.column], [code, reason, line, column], input);
+      assert.equal(err.position.offset, getOffset(input, line, column), input);
+    }
+  });
+
+  it('renders a code frame pointing at the position', () => {
+    const err = catchError(() => decode('x = 1\nport = "8080\ny = 2'));
+
+    assert.equal(err.name, 'TOMLError');
+    assert.equal(err.frame, '2 | port = "8080\n  |        ^');
+    assert.equal(err.message, `unterminated basic string (2:8)\n\n${err.frame}`);
+  });
+
+  it('names the file in messages', () => {
+    const position = { offset: 0, line: 1, column: 1 };
+
+    assert.equal(new TOMLError('x', { code: 'INVALID_PATH', position, file: 'a.toml' }).message, 'x (a.toml:1:1)');
+    assert.equal(new TOMLError('x', { code: 'INVALID_PATH', file: 'a.toml' }).message, 'x (a.toml)');
+    assert.equal(new TOMLError('x', { code: 'INVALID_PATH' }).message, 'x');
+  });
+});
+
+describe('TOMLValidationError', () => {
+  it('lists every issue with its path and position', () => {
+    const err = new TOMLValidationError([
+      { path: ['servers', 0, 'port'], reason: 'expected an integer', position: { offset: 9, line: 2, column: 8 } },
+      { path: ['a b'], reason: 'unknown key' },
+      { path: [], reason: 'missing key' },
+    ]);
+
+    assert.equal(err.name, 'TOMLValidationError');
+    assert.equal(err.message, 'servers[0].port: expected an integer (2:8)\n"a b": unknown key\nmissing key');
+  });
+});
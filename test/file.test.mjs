@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+import { pathToFileURL } from 'node:url';
+
+import { decodeFile, decodeFileSync, encodeFile, TOMLError } from '../dist/index.js';
+
+const directory = mkdtempSync(join(tmpdir(), 'toml-file-'));
+
+after(() => rmSync(directory, { recursive: true, force: true }));
+
+const writeFile = (name, content) => {
+  const file = join(directory, name);
+
+  writeFileSync(file, content);
+
+  return file;
+};
+
+describe('decodeFile', () => {
+  it('decodes files given by path or URL, without their byte order mark', async () => {
+    const file = writeFile('bom.toml', '\uFEFFa = 1\n');
+
+    assert.deepEqual(await decodeFile(file), { a: 1n });
+    assert.deepEqual(await decodeFile(pathToFileURL(file), { integers: 'number' }), { a: 1 });
+    assert.deepEqual(decodeFileSync(file), { a: 1n });
+  });
+
+  it('names the file in errors', async () => {
+    const file = writeFile('invalid.toml', 'a = 1\nb =\n');
+
+    await assert.rejects(decodeFile(file), (err) => err instanceof TOMLError && err.file === file);
+    assert.throws(
+      () => decodeFileSync(file),
+      new RegExp(`^TOMLError: expected a value, found newline \\(${file}:2:4\\)`),
+    );
+  });
+
+  it('reports the first invalid UTF-8 byte sequence', () => {
+    const file = writeFile(
+      'encoding.toml',
+      Buffer.concat([Buffer.from('a = "\uFFFD"\nb = "é'), Buffer.from([0xe2, 0x28]), Buffer.from('"\n')]),
+    );
+
+    assert.throws(
+      () => decodeFileSync(file),
+      (err) =>
+        err instanceof TOMLError &&
+        err.code === 'INVALID_ENCODING' &&
+        err.file === file &&
+        err.line === 2 &&
+        err.column === 7,
+    );
+
+    for (const [bytes, column] of [
+      [[0x80], 1],
+      [[0x61, 0xf0, 0x9f, 0x98], 2],
+      [[0xc3, 0xa9, 0xed, 0xa0, 0x80], 2],
+    ]) {
+      assert.throws(
+        () => decodeFileSync(writeFile('bytes.toml', Buffer.from(bytes))),
+        (err) => err.code === 'INVALID_ENCODING' && err.column === column,
+        bytes.join(),
+      );
+    }
+  });
+});
+
+describe('encodeFile', () => {
+  it('writes documents, leaving no temporary file behind', async () => {
+    const file = join(directory, 'encoded.toml');
+
+    await encodeFile(file, { a: 1n, t: { b: 'c' } });
+
+    assert.equal(readFileSync(file, 'utf-8'), 'a = 1\n\n[t]\nb = "c"\n');
+    assert.deepEqual(
+      readdirSync(directory).filter((name) => name.endsWith('.tmp')),
+      [],
+    );
+  });
+});
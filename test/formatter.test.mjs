@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { decode, format } from '../dist/index.js';
+
+const input = `# Header comment
+
+title='TOML'   # trailing
+[owner]
+name="Tom"
+# above dob
+dob=1979-05-27T07:32:00-08:00
+[database]
+ports=[8000,8001,8002,   # ports
+  8003]
+data=[["delta","phi"],[3.14]]
+temp_targets={cpu=79.5,case=72.0}
+big = 0xdead_beef
+float = 1e10
+
+[[products]] # first
+z = 1
+a = "it's"
+'quoted key' = """
+multi
+line"""
+`;
+
+const options = [
+  {},
+  { sortKeys: true },
+  { alignEntries: true },
+  { indentTables: true, indent: '    ' },
+  { quotes: 'single' },
+  { quotes: 'preserve' },
+  { printWidth: 20 },
+  { sortKeys: true, alignEntries: true, indentTables: true, quotes: 'single', printWidth: 20 },
+];
+
+describe('format', () => {
+  it('formats documents', () => {
+    assert.equal(
+      format(input),
+      `# Header comment
+
+title = "TOML" # trailing
+
+[owner]
+name = "Tom"
+# above dob
+dob = 1979-05-27T07:32:00-08:00
+
+[database]
+ports = [
+  8000,
+  8001,
+  8002, # ports
+  8003,
+]
+data = [["delta", "phi"], [3.14]]
+temp_targets = { cpu = 79.5, case = 72.0 }
+big = 0xdead_beef
+float = 1e10
+
+[[products]] # first
+z = 1
+a = "it's"
+"quoted key" = """
+multi
+line"""
+`,
+    );
+  });
+
+  it('keeps every comment', () => {
+    const comments = input.match(/#.*/g);
+
+    for (const option of options) {
+      assert.deepEqual(format(input, option).match(/#.*/g), comments, JSON.stringify(option));
+    }
+  });
+
+  it('keeps the values of documents', () => {
+    const value = decode(input);
+
+    for (const option of options) {
+      assert.deepEqual(decode(format(input, option)), value, JSON.stringify(option));
+    }
+  });
+
+  it('is idempotent', () => {
+    for (const option of options) {
+      const formatted = format(input, option);
+
+      assert.equal(format(formatted, option), formatted, JSON.stringify(option));
+    }
+  });
+
+  it('moves comments along with the key/value pairs they are above when sorting', () => {
+    assert.equal(
+      format('b = 1\n# about a\na = 2\n\n# c\nc = 3\n', { sortKeys: true }),
+      '# about a\na = 2\nb = 1\n\n# c\nc = 3\n',
+    );
+  });
+});
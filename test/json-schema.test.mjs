@@ -0,0 +1,131 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { decode, decodeWithJSONSchema, TOMLError, TOMLValidationError, validateJSONSchema } from '../dist/index.js';
+
+// The issues found, as [path, reason, line], or an empty array for valid documents.
+const check = (input, schema) => {
+  try {
+    decodeWithJSONSchema(input, schema);
+
+    return [];
+  } catch (err) {
+    if (!(err instanceof TOMLValidationError)) {
+      throw err;
+    }
+
+    return err.issues.map(({ path, reason, position }) => [path.join('.'), reason, position?.line]);
+  }
+};
+
+const property = (schema) => ({ properties: { a: schema } });
+
+describe('decodeWithJSONSchema', () => {
+  it('maps TOML values to the JSON types they would be represented with', () => {
+    for (const [value, type] of [
+      ['"x"', 'string'],
+      ['1', 'integer'],
+      ['1', 'number'],
+      ['2.0', 'integer'],
+      ['1.5', 'number'],
+      ['true', 'boolean'],
+      ['1979-05-27T07:32:00Z', 'string'],
+      ['1979-05-27', 'string'],
+      ['[1]', 'array'],
+      ['{ b = 1 }', 'object'],
+    ]) {
+      assert.deepEqual(check(`a = ${value}`, property({ type })), [], `${value} as ${type}`);
+    }
+
+    assert.deepEqual(check('a = 1.5', property({ type: 'integer' })), [['a', 'expected integer, found a float', 1]]);
+    assert.deepEqual(check('a = 1', property({ type: ['string', 'null'] })), [
+      ['a', 'expected string or null, found an integer', 1],
+    ]);
+  });
+
+  it('checks date-times, dates and times against their format', () => {
+    for (const [value, format] of [
+      ['1979-05-27T07:32:00-08:00', 'date-time'],
+      ['1979-05-27T07:32:00', 'local-date-time'],
+      ['1979-05-27T07:32:00', 'partial-date-time'],
+      ['1979-05-27', 'date'],
+      ['07:32:00', 'time'],
+      ['07:32:00', 'partial-time'],
+    ]) {
+      assert.deepEqual(check(`a = ${value}`, property({ format })), [], `${value} as ${format}`);
+    }
+
+    assert.deepEqual(check('a = 1979-05-27', property({ format: 'date-time' })), [
+      ['a', 'expected an offset date-time, found a local date', 1],
+    ]);
+    assert.deepEqual(check('a = "1979-05-27"', property({ format: 'date' })), []);
+    assert.equal(check('a = "May 27"', property({ format: 'date' })).length, 1);
+  });
+
+  it('resolves references within the schema', () => {
+    const schema = {
+      $defs: { port: { type: 'integer', minimum: 1 }, host: { $anchor: 'host', type: 'string' } },
+      properties: { port: { $ref: '#/$defs/port' }, host: { $ref: '#host' } },
+    };
+
+    assert.deepEqual(check('port = 80\nhost = "a"', schema), []);
+    assert.deepEqual(
+      check('port = 0\nhost = 1', schema).map(([path]) => path),
+      ['port', 'host'],
+    );
+    assert.throws(
+      () => check('a = 1', property({ $ref: 'https://example.com/schema.json' })),
+      (err) => err instanceof TOMLError && err.code === 'INVALID_SCHEMA',
+    );
+    assert.throws(() => check('a = 1', property({ $ref: '#/$defs/missing' })), /cannot resolve "#\/\$defs\/missing"/);
+  });
+
+  it('compares values to enum and const by type', () => {
+    assert.deepEqual(check('port = 8080', { properties: { port: { enum: [8080, 'http'] } } }), []);
+    assert.deepEqual(check('port = 8080', { properties: { port: { enum: ['8080'] } } }), [
+      ['port', 'expected one of "8080"', 1],
+    ]);
+    assert.deepEqual(check('port = 8080', { properties: { port: { const: 8080 } } }), []);
+    assert.deepEqual(check('port = 8080', { properties: { port: { const: '8080' } } }), [
+      ['port', 'expected "8080"', 1],
+    ]);
+    assert.deepEqual(check('a = [1, "x", { b = true }]', property({ const: [1, 'x', { b: true }] })), []);
+    assert.equal(check('a = [1, "x"]', property({ const: [1, 'y'] })).length, 1);
+    assert.deepEqual(check('a = 1979-05-27T00:32:00-07:00', property({ const: '1979-05-27T07:32:00Z' })), []);
+    assert.deepEqual(check('a = 1979-05-27', property({ enum: ['1979-05-27'] })), []);
+  });
+
+  it('reports every issue with its position', () => {
+    const schema = {
+      type: 'object',
+      required: ['name'],
+      additionalProperties: false,
+      properties: { ports: { type: 'array', items: { type: 'integer', maximum: 65535 } } },
+    };
+
+    assert.deepEqual(check('ports = [80, 70000]\nextra = 1', schema), [
+      ['name', 'missing required key', undefined],
+      ['ports.1', 'expected a number less than or equal to 65535, found 70000', 1],
+      ['extra', 'unknown key', 2],
+    ]);
+  });
+
+  it('checks values replaced with null by revivers', () => {
+    const reviver = (path, value) => (path[0] === 'a' ? null : value);
+
+    assert.deepEqual(decodeWithJSONSchema('a = 1', property({ type: 'null' }), { reviver }), { a: null });
+    assert.throws(
+      () => decodeWithJSONSchema('a = 1', property({ type: 'object', required: ['b'] }), { reviver }),
+      /^TOMLValidationError: a: expected object, found null \(1:5\)/,
+    );
+  });
+});
+
+describe('validateJSONSchema', () => {
+  it('validates values that have already been decoded', () => {
+    const value = decode('port = 80', { integers: 'number' });
+
+    assert.equal(validateJSONSchema({ properties: { port: { type: 'integer' } } }, value), value);
+    assert.throws(() => validateJSONSchema({ properties: { port: { type: 'string' } } }, value), TOMLValidationError);
+  });
+});
@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { decode, fromTaggedJSON, toJSON, toTaggedJSON, TOMLError } from '../dist/index.js';
+
+const input = `a = 9007199254740993
+b = [1.0, inf, -inf, nan, -0.0, 1e300]
+c = { d = true, e = "s" }
+f = 1979-05-27T00:32:00.5-07:00
+g = 1979-05-27T07:32:00
+h = 1979-05-27
+i = 07:32:00
+j = 2
+
+[[k]]
+l = 1
+`;
+
+describe('toTaggedJSON', () => {
+  it('tags every scalar with its type, keeping its value as a string', () => {
+    assert.deepEqual(toTaggedJSON(decode(input, { offsetDateTimes: 'offset-date-time' })), {
+      a: { type: 'integer', value: '9007199254740993' },
+      b: [
+        { type: 'float', value: '1.0' },
+        { type: 'float', value: 'inf' },
+        { type: 'float', value: '-inf' },
+        { type: 'float', value: 'nan' },
+        { type: 'float', value: '-0.0' },
+        { type: 'float', value: '1e+300' },
+      ],
+      c: { d: { type: 'bool', value: 'true' }, e: { type: 'string', value: 's' } },
+      f: { type: 'datetime', value: '1979-05-27T00:32:00.500-07:00' },
+      g: { type: 'datetime-local', value: '1979-05-27T07:32:00' },
+      h: { type: 'date-local', value: '1979-05-27' },
+      i: { type: 'time-local', value: '07:32:00' },
+      j: { type: 'integer', value: '2' },
+      k: [{ l: { type: 'integer', value: '1' } }],
+    });
+  });
+});
+
+describe('fromTaggedJSON', () => {
+  it('round-trips through toTaggedJSON', () => {
+    for (const offsetDateTimes of ['date', 'offset-date-time']) {
+      const value = decode(input, { offsetDateTimes });
+      const json = JSON.parse(JSON.stringify(toTaggedJSON(value)));
+
+      assert.deepEqual(fromTaggedJSON(json, { offsetDateTimes }), value, offsetDateTimes);
+    }
+  });
+
+  it('reads floats in any form TOML or JavaScript accept', () => {
+    const value = fromTaggedJSON({
+      a: { type: 'float', value: '+inf' },
+      b: { type: 'float', value: '-nan' },
+      c: { type: 'float', value: '1_000.5' },
+      d: { type: 'float', value: '1e3' },
+    });
+
+    assert.deepEqual(value, { a: Infinity, b: NaN, c: 1000.5, d: 1000 });
+  });
+
+  it('throws on values that are not tagged or not valid', () => {
+    for (const [json, reason] of [
+      [[], 'the root value must be an object'],
+      [{ a: 1 }, 'unexpected untagged value 1'],
+      [{ a: { type: 'string', value: 'x', b: 1 } }, 'unexpected untagged value "string"'],
+      [{ a: { type: 'integer', value: 'x' } }, 'invalid integer "x"'],
+      [{ a: { type: 'float', value: '1.5.0' } }, 'invalid float "1.5.0"'],
+      [{ a: { type: 'datetime', value: '1979-05-27' } }, 'invalid offset date-time format "1979-05-27"'],
+    ]) {
+      assert.throws(
+        () => fromTaggedJSON(json),
+        (err) => err instanceof TOMLError && err.reason === reason,
+        JSON.stringify(json),
+      );
+    }
+  });
+});
+
+describe('toJSON', () => {
+  const value = decode(input, { offsetDateTimes: 'offset-date-time' });
+
+  it('writes integers as numbers when exact, and the other types JSON lacks as strings by default', () => {
+    assert.deepEqual(toJSON(value), {
+      a: '9007199254740993',
+      b: [1, 'inf', '-inf', 'nan', -0, 1e300],
+      c: { d: true, e: 's' },
+      f: '1979-05-27T00:32:00.500-07:00',
+      g: '1979-05-27T07:32:00',
+      h: '1979-05-27',
+      i: '07:32:00',
+      j: 2,
+      k: [{ l: 1 }],
+    });
+  });
+
+  it('writes integers, non-finite floats and date-times as configured', () => {
+    const json = toJSON(value, { integers: 'string', nonFiniteFloats: 'null', dateTimes: 'tagged' });
+
+    assert.deepEqual(
+      [json.a, json.b.slice(1, 4), json.f, json.h, json.j],
+      [
+        '9007199254740993',
+        [null, null, null],
+        { type: 'datetime', value: '1979-05-27T00:32:00.500-07:00' },
+        { type: 'date-local', value: '1979-05-27' },
+        '2',
+      ],
+    );
+    assert.equal(toJSON(value, { integers: 'number' }).a, 9007199254740992);
+    assert.equal(toJSON(1n), 1);
+  });
+});
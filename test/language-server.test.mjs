@@ -0,0 +1,211 @@
+import assert from 'node:assert/strict';
+import { PassThrough } from 'node:stream';
+import { describe, it } from 'node:test';
+
+import { LanguageServer } from '../dist/index.js';
+
+// A client exchanging messages with a server over in-memory streams.
+const createClient = (options = {}) => {
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const received = [];
+  const exitCodes = [];
+
+  let buffer = Buffer.alloc(0);
+  let nextId = 1;
+
+  new LanguageServer(input, output, { ...options, onExit: (code) => exitCodes.push(code) });
+
+  output.on('data', (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+
+    for (;;) {
+      const match = /^Content-Length: (\d+)\r\n\r\n/.exec(buffer.toString('ascii', 0, 64));
+
+      if (!match || buffer.length < match[0].length + Number(match[1])) {
+        return;
+      }
+
+      const end = match[0].length + Number(match[1]);
+
+      received.push(JSON.parse(buffer.subarray(match[0].length, end).toString('utf-8')));
+
+      buffer = buffer.subarray(end);
+    }
+  });
+
+  // Sends a message, or a raw body if given a string, and returns the messages received in response.
+  const send = async (message) => {
+    const body = typeof message === 'string' ? message : JSON.stringify({ jsonrpc: '2.0', ...message });
+
+    input.write(`Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`);
+
+    await new Promise((resolve) => setImmediate(resolve));
+
+    return received.splice(0);
+  };
+
+  const request = async (method, params) => {
+    const id = nextId++;
+    const [response] = (await send({ id, method, params })).filter((message) => message.id === id);
+
+    return response;
+  };
+
+  const notify = (method, params) => send({ method, params });
+
+  return { send, request, notify, exitCodes };
+};
+
+const uri = 'file:///config.toml';
+
+const open = async (text, options) => {
+  const client = createClient(options);
+
+  await client.request('initialize', { capabilities: {} });
+  await client.notify('initialized', {});
+
+  const [diagnostics] = await client.notify('textDocument/didOpen', {
+    textDocument: { uri, languageId: 'toml', version: 1, text },
+  });
+
+  return { client, diagnostics: diagnostics.params.diagnostics };
+};
+
+describe('LanguageServer', () => {
+  it('answers invalid messages with errors and keeps serving', async () => {
+    const client = createClient();
+
+    assert.equal((await client.request('initialize', { capabilities: {} })).result.serverInfo.name, 'toml-nodejs');
+
+    for (const [body, id] of [
+      ['null', null],
+      ['4', null],
+      ['"initialize"', null],
+      ['[]', null],
+      ['{"jsonrpc":"2.0","id":7}', 7],
+      ['{"jsonrpc":"2.0","id":8,"method":1}', 8],
+    ]) {
+      const [response] = await client.send(body);
+
+      assert.deepEqual(response, { jsonrpc: '2.0', id, error: { code: -32600, message: 'invalid request' } });
+    }
+
+    const [response] = await client.send('{');
+
+    assert.equal(response.error.code, -32700);
+    assert.deepEqual(await client.request('shutdown'), { jsonrpc: '2.0', id: 2, result: null });
+  });
+
+  it('rejects requests before initialization and unknown methods', async () => {
+    const client = createClient();
+
+    assert.equal((await client.request('textDocument/hover', {})).error.code, -32002);
+
+    await client.request('initialize', {});
+
+    assert.equal((await client.request('foo/bar', {})).error.code, -32601);
+  });
+
+  it('exits with 0 after a shutdown, and with 1 otherwise', async () => {
+    const client = createClient();
+
+    await client.request('initialize', {});
+    await client.notify('exit');
+    await client.request('shutdown');
+    await client.notify('exit');
+
+    assert.deepEqual(client.exitCodes, [1, 0]);
+  });
+
+  it('publishes diagnostics as documents change', async () => {
+    const { client, diagnostics } = await open('a = "x\nb = 1\nb = 2\n');
+
+    assert.deepEqual(
+      diagnostics.map(({ range, code, message }) => [range.start, code, message]),
+      [
+        [{ line: 0, character: 4 }, 'UNTERMINATED_STRING', 'unterminated basic string'],
+        [{ line: 2, character: 0 }, 'DUPLICATE_KEY', 'duplicate key "b"'],
+      ],
+    );
+
+    const [notification] = await client.notify('textDocument/didChange', {
+      textDocument: { uri, version: 2 },
+      contentChanges: [{ text: 'a = "x"\n' }],
+    });
+
+    assert.deepEqual(notification.params, { uri, diagnostics: [] });
+  });
+
+  it('follows the version of TOML of the initialization options', async () => {
+    const client = createClient();
+
+    await client.request('initialize', { initializationOptions: { version: '1.1' } });
+
+    const [notification] = await client.notify('textDocument/didOpen', {
+      textDocument: { uri, languageId: 'toml', version: 1, text: 'a = { b = 1, }\n' },
+    });
+
+    assert.deepEqual(notification.params.diagnostics, []);
+  });
+
+  it('resolves hovers and definitions of keys', async () => {
+    const { client } = await open('[fruit]\napple.color = "red"\n\n[fruit.apple.texture]\nsmooth = true\n');
+
+    const position = (line, character) => ({ textDocument: { uri }, position: { line, character } });
+
+    const hover = await client.request('textDocument/hover', position(3, 9));
+
+    assert.deepEqual(hover.result.contents, { kind: 'markdown', value: '`fruit.apple`: table' });
+
+    const definition = await client.request('textDocument/definition', position(3, 9));
+
+    assert.deepEqual(definition.result, {
+      uri,
+      range: { start: { line: 1, character: 0 }, end: { line: 1, character: 5 } },
+    });
+
+    const value = await client.request('textDocument/hover', position(4, 11));
+
+    assert.equal(value.result.contents.value, '`fruit.apple.texture.smooth`: boolean');
+    assert.equal((await client.request('textDocument/hover', position(2, 0))).result, null);
+  });
+
+  it('lists tables and arrays of tables as nested symbols', async () => {
+    const { client } = await open(
+      '[[products]]\nname = "Hammer"\n\n[[products]]\nname = "Nail"\n\n[products.details]\n',
+    );
+
+    const { result } = await client.request('textDocument/documentSymbol', { textDocument: { uri } });
+
+    const names = (symbols) => symbols.map(({ name, children }) => [name, names(children)]);
+
+    assert.deepEqual(names(result), [
+      ['products[0]', []],
+      ['products[1]', [['details', []]]],
+    ]);
+  });
+
+  it('folds and formats documents', async () => {
+    const { client } = await open('a=[\n  1,\n  2,\n]\n[t]\nb   =  "c"\n');
+
+    const folds = await client.request('textDocument/foldingRange', { textDocument: { uri } });
+
+    assert.deepEqual(folds.result, [
+      { startLine: 0, endLine: 2 },
+      { startLine: 4, endLine: 5 },
+    ]);
+
+    const edits = await client.request('textDocument/formatting', {
+      textDocument: { uri },
+      options: { tabSize: 2, insertSpaces: true },
+    });
+
+    assert.deepEqual(edits.result, [
+      {
+        range: { start: { line: 0, character: 0 }, end: { line: 6, character: 0 } },
+        newText: 'a = [1, 2]\n\n[t]\nb = "c"\n',
+      },
+    ]);
+  });
+});
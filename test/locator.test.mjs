@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { formatKeyPath, locate, parse, pathAt } from '../dist/index.js';
+
+const input = `a.b = 1
+ports = [8080, { c = 2 }]
+
+[servers.alpha]
+host = "localhost"
+
+[[products]]
+name = "Hammer"
+
+[[products]]
+name = "Nail"
+`;
+
+// The text of a range, and the line and column it starts at.
+const describeRange = (range) => {
+  return range && [input.slice(range.start.offset, range.end.offset), range.start.line, range.start.column];
+};
+
+const describeLocation = ({ range, key, value }) => {
+  return { range: describeRange(range), key: describeRange(key), value: describeRange(value) };
+};
+
+describe('locate', () => {
+  it('finds the key/value pairs, headers and elements of arrays defining paths', () => {
+    assert.deepEqual(describeLocation(locate(input, ['a', 'b'])), {
+      range: ['a.b = 1', 1, 1],
+      key: ['b', 1, 3],
+      value: ['1', 1, 7],
+    });
+    assert.deepEqual(describeLocation(locate(input, ['ports', 1, 'c'])), {
+      range: ['c = 2', 2, 18],
+      key: ['c', 2, 18],
+      value: ['2', 2, 22],
+    });
+    assert.deepEqual(describeLocation(locate(input, ['ports', 0])), {
+      range: ['8080', 2, 10],
+      key: undefined,
+      value: ['8080', 2, 10],
+    });
+    assert.deepEqual(describeLocation(locate(input, ['products', 1])), {
+      range: ['[[products]]\nname = "Nail"', 10, 1],
+      key: ['products', 10, 3],
+      value: undefined,
+    });
+  });
+
+  it('finds implicit tables at their first definition', () => {
+    assert.equal(locate(input, ['a']).range.start.line, 1);
+    assert.equal(locate(input, ['servers']).range.start.line, 4);
+  });
+
+  it('accepts syntax trees, and returns undefined for paths that are not defined', () => {
+    const node = parse(input);
+
+    assert.equal(locate(node, ['servers', 'alpha', 'host']).key.start.line, 5);
+    assert.equal(locate(node, ['servers', 'beta']), undefined);
+    assert.equal(locate(node, ['products', 2]), undefined);
+    assert.equal(locate(node, ['a', 'b', 'c']), undefined);
+  });
+});
+
+describe('pathAt', () => {
+  const at = (text, delta = 0) => {
+    const path = pathAt(input, input.indexOf(text) + delta);
+
+    return path && formatKeyPath(path);
+  };
+
+  it('returns the path of keys and values at an offset', () => {
+    assert.equal(at('a.b'), 'a');
+    assert.equal(at('b = 1'), 'a.b');
+    assert.equal(at('1\n'), 'a.b');
+    assert.equal(at('8080'), 'ports[0]');
+    assert.equal(at('2 }'), 'ports[1].c');
+    assert.equal(at('alpha'), 'servers.alpha');
+    assert.equal(at('"Nail"'), 'products[1].name');
+  });
+
+  it('counts offsets right after a key or value as part of it', () => {
+    assert.equal(at('8080', 4), 'ports[0]');
+    assert.equal(at('host', 4), 'servers.alpha.host');
+  });
+
+  it('falls back to the key/value pair or section holding an offset', () => {
+    assert.equal(at('= 1'), 'a.b');
+    assert.equal(at('[[products]]\nname = "Nail"', 1), 'products[1]');
+    assert.equal(pathAt(input, input.length), undefined);
+  });
+});
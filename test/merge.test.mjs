@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { mergeDocuments } from '../dist/index.js';
+
+const defaults = {
+  source: 'defaults.toml',
+  value: {
+    server: { host: 'localhost', port: 80n },
+    tags: ['a'],
+    products: [{ name: 'Hammer' }],
+  },
+};
+
+describe('mergeDocuments', () => {
+  it('merges tables, appends to arrays of tables and replaces other values by default', () => {
+    const overrides = {
+      source: 'local.toml',
+      value: { server: { port: 8080n }, tags: ['b'], products: [{ name: 'Nail' }] },
+    };
+
+    const { value, sources } = mergeDocuments([defaults, overrides]);
+
+    assert.deepEqual(value, {
+      server: { host: 'localhost', port: 8080n },
+      tags: ['b'],
+      products: [{ name: 'Hammer' }, { name: 'Nail' }],
+    });
+    assert.deepEqual(Object.fromEntries(sources), {
+      'server.host': 'defaults.toml',
+      'server.port': 'local.toml',
+      'tags': 'local.toml',
+      'tags[0]': 'local.toml',
+      'products[0]': 'defaults.toml',
+      'products[0].name': 'defaults.toml',
+      'products[1]': 'local.toml',
+      'products[1].name': 'local.toml',
+    });
+    assert.deepEqual(defaults.value.tags, ['a']);
+  });
+
+  it('follows the strategies given by path', () => {
+    const overrides = {
+      source: 'local.toml',
+      value: { server: { port: 8080n }, tags: ['b'], products: [{ price: 1n }] },
+    };
+
+    const strategies = { server: 'replace', tags: 'concat', products: 'merge' };
+    const { value, sources } = mergeDocuments([defaults, overrides], {
+      strategy: (path) => (path.length === 1 ? strategies[path[0]] : undefined),
+    });
+
+    assert.deepEqual(value, {
+      server: { port: 8080n },
+      tags: ['a', 'b'],
+      products: [{ name: 'Hammer', price: 1n }],
+    });
+    assert.equal(sources.get('server.host'), undefined);
+    assert.equal(sources.get('tags[1]'), 'local.toml');
+    assert.equal(sources.get('products[0].price'), 'local.toml');
+  });
+
+  it('merges a table into the last element of an array of tables', () => {
+    const overrides = { source: 'local.toml', value: { products: { price: 1n } } };
+
+    assert.deepEqual(mergeDocuments([defaults, overrides]).value.products, [{ name: 'Hammer', price: 1n }]);
+  });
+
+  it('replaces values with strategies that do not apply to them', () => {
+    const overrides = { source: 'local.toml', value: { server: 'localhost:8080' } };
+
+    const { value } = mergeDocuments([defaults, overrides], { strategy: () => 'concat' });
+
+    assert.equal(value.server, 'localhost:8080');
+  });
+});
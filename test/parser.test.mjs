@@ -0,0 +1,159 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { normalize, parse, parseKey, parseValue, TOMLError } from '../dist/index.js';
+
+const input = `a."b" = [1, { c = 2 }] # comment\r
+[t]
+e = 1979-05-27T07:32:00Z
+[[u]]
+d = """
+z"""
+f = { g = "🎉", h = 0x1F }
+`;
+
+// Every node of a tree, depth first.
+const walk = function* (node) {
+  yield node;
+
+  for (const key of ['key', 'keys', 'value', 'elements']) {
+    const child = node[key];
+
+    if (Array.isArray(child)) {
+      for (const element of child) {
+        yield* walk(element);
+      }
+    } else if (child && typeof child === 'object' && 'type' in child) {
+      yield* walk(child);
+    }
+  }
+};
+
+const describeNodes = (text) => {
+  return [...walk(parse(text))].map(({ type, start, end }) => [type, text.slice(start.offset, end.offset)]);
+};
+
+describe('parse', () => {
+  it('gives the range of every node', () => {
+    assert.deepEqual(describeNodes(input), [
+      ['ROOT_TABLE', input],
+      ['KEY_VALUE_PAIR', 'a."b" = [1, { c = 2 }]'],
+      ['KEY', 'a."b"'],
+      ['BARE', 'a'],
+      ['STRING', '"b"'],
+      ['ARRAY', '[1, { c = 2 }]'],
+      ['INTEGER', '1'],
+      ['INLINE_TABLE', '{ c = 2 }'],
+      ['KEY_VALUE_PAIR', 'c = 2'],
+      ['KEY', 'c'],
+      ['BARE', 'c'],
+      ['INTEGER', '2'],
+      ['TABLE', '[t]\ne = 1979-05-27T07:32:00Z'],
+      ['KEY', 't'],
+      ['BARE', 't'],
+      ['KEY_VALUE_PAIR', 'e = 1979-05-27T07:32:00Z'],
+      ['KEY', 'e'],
+      ['BARE', 'e'],
+      ['OFFSET_DATE_TIME', '1979-05-27T07:32:00Z'],
+      ['ARRAY_TABLE', '[[u]]\nd = """\nz"""\nf = { g = "🎉", h = 0x1F }'],
+      ['KEY', 'u'],
+      ['BARE', 'u'],
+      ['KEY_VALUE_PAIR', 'd = """\nz"""'],
+      ['KEY', 'd'],
+      ['BARE', 'd'],
+      ['STRING', '"""\nz"""'],
+      ['KEY_VALUE_PAIR', 'f = { g = "🎉", h = 0x1F }'],
+      ['KEY', 'f'],
+      ['BARE', 'f'],
+      ['INLINE_TABLE', '{ g = "🎉", h = 0x1F }'],
+      ['KEY_VALUE_PAIR', 'g = "🎉"'],
+      ['KEY', 'g'],
+      ['BARE', 'g'],
+      ['STRING', '"🎉"'],
+      ['KEY_VALUE_PAIR', 'h = 0x1F'],
+      ['KEY', 'h'],
+      ['BARE', 'h'],
+      ['INTEGER', '0x1F'],
+    ]);
+  });
+
+  it('gives lines and columns, counted in UTF-16 code units, matching the offsets', () => {
+    const lines = input.split(/(?<=\n)/);
+
+    for (const node of walk(parse(input))) {
+      for (const { offset, line, column } of [node.start, node.end]) {
+        const lineStart = lines.slice(0, line - 1).join('').length;
+
+        assert.equal(lineStart + column - 1, offset, `${node.type} at ${line}:${column}`);
+      }
+    }
+
+    const { value } = parse(input).elements[2].elements[1];
+
+    assert.deepEqual(value.elements[1].start, { offset: input.indexOf('h = 0x1F'), line: 7, column: 17 });
+  });
+
+  it('tells dotted keys, inline tables, tables and arrays of tables apart', () => {
+    const { elements } = parse('a.b = 1\nc = { d = 2 }\n[t]\n[[e]]\nf = 3\n[[e]]\n');
+
+    assert.deepEqual(
+      elements.map(({ type, key, elements }) => [
+        type,
+        key.keys.map(({ value }) => value),
+        elements?.map(({ key }) => key.keys[0].value),
+      ]),
+      [
+        ['KEY_VALUE_PAIR', ['a', 'b'], undefined],
+        ['KEY_VALUE_PAIR', ['c'], undefined],
+        ['TABLE', ['t'], []],
+        ['ARRAY_TABLE', ['e'], ['f']],
+        ['ARRAY_TABLE', ['e'], []],
+      ],
+    );
+    assert.equal(elements[1].value.type, 'INLINE_TABLE');
+  });
+
+  it('keeps the values of scalars as decoded', () => {
+    assert.deepEqual(
+      parse("a = 0x1F\nb = 1e3\nc = true\nd = 'x'").elements.map(({ value }) => [value.type, value.value]),
+      [
+        ['INTEGER', 31n],
+        ['FLOAT', 1000],
+        ['BOOLEAN', true],
+        ['STRING', 'x'],
+      ],
+    );
+  });
+});
+
+describe('parseKey', () => {
+  it('parses dotted keys', () => {
+    assert.deepEqual(
+      parseKey('servers."alpha.example.com" . port').keys.map(({ type, value }) => [type, value]),
+      [
+        ['BARE', 'servers'],
+        ['STRING', 'alpha.example.com'],
+        ['BARE', 'port'],
+      ],
+    );
+    assert.throws(() => parseKey('a.'), TOMLError);
+  });
+});
+
+describe('parseValue', () => {
+  it('parses values, and throws on anything following them', () => {
+    assert.equal(parseValue('1979-05-27').type, 'LOCAL_DATE');
+    assert.deepEqual(normalize(parseValue('[1, { a = 2.5 }]')), [1n, { a: 2.5 }]);
+    assert.throws(() => parseValue('1 2'), /^TOMLError: expected end of input/);
+  });
+});
+
+describe('normalize', () => {
+  it('turns syntax trees into values', () => {
+    const node = parse('a.b = 1\n[[e]]\n[[e]]\nf = 2\n');
+
+    assert.deepEqual(normalize(node), { a: { b: 1n }, e: [{}, { f: 2n }] });
+    assert.deepEqual(normalize(node, { integers: 'number' }), { a: { b: 1 }, e: [{}, { f: 2 }] });
+    assert.deepEqual(normalize(node.elements[0]), { a: { b: 1n } });
+  });
+});
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { decode, parse, print } from '../dist/index.js';
+
+const input = `# comment
+
+a = [ # open
+  1_000, 0xf_f, 0o17, 0b1,  # one
+  +inf, -nan, 1E+3, 3.14_15,
+
+  # dangling
+]
+"quoted"."key" . bare = """
+multi \\
+  line"""
+lit = '''
+raw'''
+t = {a=1,b={ c = "\\u00e9\\t" }}
+
+[ table . sub ]   # header
+  [[ arr ]]
+dt = 1979-05-27 07:32:00.999+01:00
+ld = 1979-05-27
+lt = 07:32:00
+ldt = 1979-05-27t07:32:00
+`;
+
+describe('print', () => {
+  it('reproduces the input of syntax trees parsed with trivia', () => {
+    for (const text of [input, input.replaceAll('\n', '\r\n'), '', '\n\n', 'a = 1', '  # only a comment']) {
+      assert.equal(print(parse(text, { cst: true })), text);
+    }
+  });
+
+  it('reproduces inline tables spanning several lines as of TOML 1.1', () => {
+    const text = 'a = {\n  b = 1, # c\n  d.e = 2,\n}\n';
+
+    assert.equal(print(parse(text, { cst: true, version: '1.1' })), text);
+  });
+
+  it('prints syntax trees without trivia with minimal whitespace', () => {
+    assert.equal(print(parse('a.b=1 # x\n[t]\nc=[1,{d="e"}]\n[[u]]\n')), 'a.b = 1\n[t]\nc = [1, { d = "e" }]\n[[u]]\n');
+    assert.deepEqual(decode(print(parse(input))), decode(input));
+  });
+
+  it('prints single nodes along with their trivia', () => {
+    const { elements } = parse(input, { cst: true });
+
+    assert.equal(print(elements[0].value.elements[1]), ' 0xf_f');
+    assert.equal(print(elements[2].key), 'lit ');
+  });
+});
@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { decodeWithDiagnostics, parseWithDiagnostics } from '../dist/index.js';
+
+// The diagnostics as [code, message, line, column], without their code frames.
+const describeDiagnostics = (diagnostics) => {
+  return diagnostics.map(({ code, message, position }) => [
+    code,
+    message.split('\n')[0].replace(/ \(\d+:\d+\)$/, ''),
+    position.line,
+    position.column,
+  ]);
+};
+
+describe('parseWithDiagnostics', () => {
+  it('reports every error and resumes at the next expression', () => {
+    const { node, diagnostics } = parseWithDiagnostics('a = "x\nb = 1\nc = = 2\n[t]\nd = 3\n');
+
+    assert.deepEqual(describeDiagnostics(diagnostics), [
+      ['UNTERMINATED_STRING', 'unterminated basic string', 1, 5],
+      ['UNEXPECTED_TOKEN', 'expected a value, found "="', 3, 5],
+    ]);
+    assert.equal(node.elements.length, 2);
+  });
+
+  it('resumes at a table header following an array that is not closed', () => {
+    for (const input of ['a = [\n[t]\nk = 1\n', 'a = [1\n[t]\nk = 1\n', 'a = [1,\n  [t]\nk = 1\n']) {
+      const { value, diagnostics } = decodeWithDiagnostics(input);
+
+      assert.deepEqual(value, { t: { k: 1n } }, input);
+      assert.deepEqual(describeDiagnostics(diagnostics), [['UNEXPECTED_TOKEN', 'unterminated array', 1, 5]], input);
+    }
+  });
+
+  it('resumes at a key/value pair following an array that is not closed', () => {
+    const { value, diagnostics } = decodeWithDiagnostics('a = 1\nb = [\nc = "x\nd = [1,\n  e = 2\n');
+
+    assert.deepEqual(value, { a: 1n, e: 2n });
+    assert.deepEqual(describeDiagnostics(diagnostics), [
+      ['UNEXPECTED_TOKEN', 'unterminated array', 2, 5],
+      ['UNTERMINATED_STRING', 'unterminated basic string', 3, 5],
+      ['UNEXPECTED_TOKEN', 'unterminated array', 4, 5],
+    ]);
+  });
+
+  it('resumes at a table header following an inline table that is not closed as of TOML 1.1', () => {
+    const { value, diagnostics } = decodeWithDiagnostics('a = { b = 1,\n[t]\nk = 1\n', { version: '1.1' });
+
+    assert.deepEqual(value, { t: { k: 1n } });
+    assert.deepEqual(describeDiagnostics(diagnostics), [['UNEXPECTED_TOKEN', 'unterminated inline table', 1, 5]]);
+  });
+
+  it('reports nothing for valid documents', () => {
+    const { diagnostics } = parseWithDiagnostics('a = [\n  1,\n  [2],\n]\n[t]\nk = 1\n');
+
+    assert.deepEqual(diagnostics, []);
+  });
+});
+
+describe('decodeWithDiagnostics', () => {
+  it('leaves out the key/value pairs that cannot be normalized, and reports them in the order of the document', () => {
+    const input = 'a = 9007199254740993\nb = "x\n[t]\nc = 1\nd = [9007199254740993]\ne = 2\n';
+    const { value, diagnostics } = decodeWithDiagnostics(input, { integers: 'safe' });
+
+    assert.deepEqual(value, { t: { c: 1, e: 2 } });
+    assert.deepEqual(
+      diagnostics.map(({ code, position }) => [code, position.line, position.column]),
+      [
+        ['INTEGER_OUT_OF_RANGE', 1, 5],
+        ['UNTERMINATED_STRING', 2, 5],
+        ['INTEGER_OUT_OF_RANGE', 5, 6],
+      ],
+    );
+  });
+});
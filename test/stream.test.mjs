@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { decodeStream, TOMLError } from '../dist/index.js';
+
+const collect = async (chunks) => {
+  const events = [];
+
+  for await (const event of decodeStream(chunks)) {
+    events.push(event);
+  }
+
+  return events;
+};
+
+// Yields the chunks one by one, recording how many have been read.
+const createSource = (chunks) => {
+  const source = {
+    read: 0,
+    async *[Symbol.asyncIterator]() {
+      for (const chunk of chunks) {
+        source.read++;
+
+        yield chunk;
+      }
+    },
+  };
+
+  return source;
+};
+
+const input = [
+  'title = "TOML \\"stream\\""\r\n',
+  '"quoted key".bare-key = 1979-05-27T07:32:00Z\r\n',
+  "lines = '''\nfirst\r\nsecond'''\n",
+  'ports = [\n  8080, # web\n  8443,\n]\n',
+  'point = { x = 1, y = -2.5e3 }\n',
+  'emoji = "é🎉"\n',
+  '\n[[products]]\nname = "Hammer"\n\n[products.details]\nsku = 738594937\n',
+  '\n[[products]]\nname = "Nail"\n',
+].join('');
+
+describe('decodeStream', () => {
+  it('emits key/value pairs and elements of arrays of tables', async () => {
+    const events = await collect([input]);
+
+    assert.deepEqual(
+      events.map(({ type, path }) => [type, path.join('.')]),
+      [
+        ['KEY_VALUE', 'title'],
+        ['KEY_VALUE', 'quoted key.bare-key'],
+        ['KEY_VALUE', 'lines'],
+        ['KEY_VALUE', 'ports'],
+        ['KEY_VALUE', 'point'],
+        ['KEY_VALUE', 'emoji'],
+        ['ARRAY_TABLE_ELEMENT', 'products.0'],
+        ['ARRAY_TABLE_ELEMENT', 'products.1'],
+      ],
+    );
+    assert.deepEqual(events[6].value, { name: 'Hammer', details: { sku: 738594937n } });
+    assert.equal(events[2].value, 'first\nsecond');
+  });
+
+  it('decodes documents split at any character, including within strings, keys and CRLF', async () => {
+    const expected = await collect([input]);
+
+    for (let i = 1; i < input.length; i++) {
+      assert.deepEqual(await collect(createSource([input.slice(0, i), input.slice(i)])), expected, `split at ${i}`);
+    }
+  });
+
+  it('decodes documents split at any byte, including within multi-byte characters', async () => {
+    const bytes = new TextEncoder().encode(input);
+    const expected = await collect([input]);
+
+    for (let i = 1; i < bytes.length; i++) {
+      assert.deepEqual(await collect([bytes.subarray(0, i), bytes.subarray(i)]), expected, `split at ${i}`);
+    }
+  });
+
+  it('throws errors as soon as the expression they belong to is read', async () => {
+    const source = createSource(['a = = 1\nb = 1\n', ...Array.from({ length: 10 }, () => 'c = 1\n')]);
+
+    await assert.rejects(collect(source), (err) => err instanceof TOMLError && err.line === 1 && err.column === 5);
+    assert.equal(source.read, 1);
+  });
+
+  it('reports errors with their position within the whole document', async () => {
+    const source = createSource(['a = 1\nb = "unterminated', '\nc = 1\n']);
+
+    await assert.rejects(collect(source), (err) => err.code === 'UNTERMINATED_STRING' && err.line === 2);
+    await assert.rejects(collect(['a = 1\n', 'a = 2\n']), (err) => err.code === 'DUPLICATE_KEY' && err.line === 2);
+    await assert.rejects(collect(['a = "x']), (err) => err.code === 'UNTERMINATED_STRING');
+  });
+});
@@ -0,0 +1,126 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  decode,
+  encode,
+  fromTemporal,
+  isTemporal,
+  LocalDate,
+  LocalDateTime,
+  LocalTime,
+  OffsetDateTime,
+  temporalHooks,
+  toTemporal,
+} from '../dist/index.js';
+
+// A stand-in for the Temporal namespace, whose objects keep the ISO 8601 string they're created from, as the module
+// only relies on `from`, `toString` and the tags.
+const makeTemporalClass = (tag) => {
+  return class {
+    static from(item) {
+      return new this(item);
+    }
+
+    constructor(iso) {
+      this.iso = iso;
+    }
+
+    get [Symbol.toStringTag]() {
+      return tag;
+    }
+
+    toString(options) {
+      return options?.timeZoneName === 'never' ? this.iso.replace(/\[.+\]$/, '') : this.iso;
+    }
+  };
+};
+
+const Temporal = {
+  PlainDate: makeTemporalClass('Temporal.PlainDate'),
+  PlainTime: makeTemporalClass('Temporal.PlainTime'),
+  PlainDateTime: makeTemporalClass('Temporal.PlainDateTime'),
+  ZonedDateTime: makeTemporalClass('Temporal.ZonedDateTime'),
+  Instant: makeTemporalClass('Temporal.Instant'),
+};
+
+const describeTemporal = (value) => [Object.prototype.toString.call(value), value.toString()];
+
+describe('toTemporal', () => {
+  it('converts date-times, dates and times to their Temporal counterparts', () => {
+    assert.deepEqual(describeTemporal(toTemporal(Temporal, LocalDate.fromString('1979-05-27'))), [
+      '[object Temporal.PlainDate]',
+      '1979-05-27',
+    ]);
+    assert.deepEqual(describeTemporal(toTemporal(Temporal, LocalTime.fromString('07:32:00.999999'))), [
+      '[object Temporal.PlainTime]',
+      '07:32:00.999999',
+    ]);
+    assert.deepEqual(describeTemporal(toTemporal(Temporal, LocalDateTime.fromString('1979-05-27T07:32:00'))), [
+      '[object Temporal.PlainDateTime]',
+      '1979-05-27T07:32:00',
+    ]);
+    assert.deepEqual(describeTemporal(toTemporal(Temporal, OffsetDateTime.fromString('1979-05-27T07:32:00-07:00'))), [
+      '[object Temporal.ZonedDateTime]',
+      '1979-05-27T07:32:00-07:00[-07:00]',
+    ]);
+    assert.deepEqual(describeTemporal(toTemporal(Temporal, OffsetDateTime.fromString('1979-05-27T07:32:00Z'))), [
+      '[object Temporal.ZonedDateTime]',
+      '1979-05-27T07:32:00Z[+00:00]',
+    ]);
+    assert.deepEqual(describeTemporal(toTemporal(Temporal, new Date('1979-05-27T07:32:00Z'))), [
+      '[object Temporal.Instant]',
+      '1979-05-27T07:32:00.000Z',
+    ]);
+  });
+});
+
+describe('fromTemporal', () => {
+  it('converts Temporal objects to date-times, dates and times', () => {
+    assert.deepEqual(fromTemporal(Temporal.PlainDate.from('1979-05-27')), LocalDate.fromString('1979-05-27'));
+    assert.deepEqual(fromTemporal(Temporal.PlainTime.from('07:32:00.5')), LocalTime.fromString('07:32:00.5'));
+    assert.deepEqual(
+      fromTemporal(Temporal.PlainDateTime.from('1979-05-27T07:32:00')),
+      LocalDateTime.fromString('1979-05-27T07:32:00'),
+    );
+    assert.deepEqual(
+      fromTemporal(Temporal.ZonedDateTime.from('1979-05-27T07:32:00-07:00[America/Los_Angeles]')),
+      OffsetDateTime.fromString('1979-05-27T07:32:00-07:00'),
+    );
+    assert.deepEqual(
+      fromTemporal(Temporal.Instant.from('1979-05-27T07:32:00.123456789Z')),
+      OffsetDateTime.fromString('1979-05-27T07:32:00.123456789Z'),
+    );
+  });
+
+  it('recognizes Temporal objects by their tag', () => {
+    assert.ok(isTemporal(Temporal.PlainDate.from('1979-05-27')));
+    assert.ok(!isTemporal(LocalDate.fromString('1979-05-27')));
+    assert.ok(!isTemporal(null));
+  });
+});
+
+describe('temporalHooks', () => {
+  const input = 'a = 1979-05-27T07:32:00-07:00\nb = 1979-05-27T07:32:00\nc = 1979-05-27\nd = 07:32:00\n';
+
+  it('decodes date-times, dates and times as Temporal objects', () => {
+    const value = decode(input, temporalHooks(Temporal));
+
+    assert.deepEqual(Object.values(value).map(describeTemporal), [
+      ['[object Temporal.ZonedDateTime]', '1979-05-27T07:32:00-07:00[-07:00]'],
+      ['[object Temporal.PlainDateTime]', '1979-05-27T07:32:00'],
+      ['[object Temporal.PlainDate]', '1979-05-27'],
+      ['[object Temporal.PlainTime]', '07:32:00'],
+    ]);
+  });
+
+  it('decodes offset date-times as instants on request', () => {
+    const value = decode(input, temporalHooks(Temporal, { offsetDateTimes: 'instant' }));
+
+    assert.deepEqual(describeTemporal(value.a), ['[object Temporal.Instant]', '1979-05-27T07:32:00-07:00']);
+  });
+
+  it('round-trips Temporal objects through encode', () => {
+    assert.equal(encode(decode(input, temporalHooks(Temporal))), input);
+  });
+});
@@ -0,0 +1,159 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { decode, LocalDate, LocalDateTime, LocalTime, OffsetDateTime, TOMLError } from '../dist/index.js';
+
+describe('OffsetDateTime', () => {
+  it('keeps the offset and fractions of seconds beyond milliseconds', () => {
+    const value = OffsetDateTime.fromString('1979-05-27 07:32:00.123456789+05:30');
+
+    assert.deepEqual(
+      [value.year, value.month, value.day, value.hour, value.minute, value.second],
+      [1979, 5, 27, 7, 32, 0],
+    );
+    assert.deepEqual([value.nanosecond, value.millisecond, value.offset], [123456789, 123, 330]);
+  });
+
+  it('writes the canonical form, with as many fractional digits as needed', () => {
+    for (const [text, expected] of [
+      ['1979-05-27T07:32:00Z', '1979-05-27T07:32:00Z'],
+      ['1979-05-27t07:32:00z', '1979-05-27T07:32:00Z'],
+      ['1979-05-27T07:32:00-00:00', '1979-05-27T07:32:00Z'],
+      ['1979-05-27T07:32:00.5-07:00', '1979-05-27T07:32:00.500-07:00'],
+      ['1979-05-27T07:32:00.999999+01:00', '1979-05-27T07:32:00.999999+01:00'],
+      ['0001-01-01T00:00:00.000000001+00:01', '0001-01-01T00:00:00.000000001+00:01'],
+    ]) {
+      const value = OffsetDateTime.fromString(text);
+
+      assert.equal(value.toISOString(), expected, text);
+      assert.equal(value.toString(), expected, text);
+      assert.equal(JSON.stringify(value), `"${expected}"`, text);
+    }
+  });
+
+  it('converts to dates, truncating to milliseconds', () => {
+    assert.equal(
+      OffsetDateTime.fromString('1979-05-27T07:32:00.999999-07:00').toDate().toISOString(),
+      '1979-05-27T14:32:00.999Z',
+    );
+    assert.equal(
+      OffsetDateTime.fromString('0001-01-01T00:00:00+00:01').toDate().toISOString(),
+      '0000-12-31T23:59:00.000Z',
+    );
+  });
+
+  it('throws on invalid date-times and offsets', () => {
+    for (const text of ['1979-05-27T07:32:00', '1979-05-27T07:32:00+24:00', '1979-02-30T07:32:00Z', '']) {
+      assert.throws(
+        () => OffsetDateTime.fromString(text),
+        (err) => err instanceof TOMLError && err.code === 'INVALID_DATE_TIME',
+        text,
+      );
+    }
+  });
+
+  it('is decoded on request, instead of a date', () => {
+    const input = 'a = 1979-05-27T07:32:00.999999-07:00';
+
+    assert.deepEqual(decode(input), { a: new Date('1979-05-27T14:32:00.999Z') });
+    assert.deepEqual(decode(input, { offsetDateTimes: 'offset-date-time' }), {
+      a: OffsetDateTime.fromString('1979-05-27T07:32:00.999999-07:00'),
+    });
+  });
+});
+
+describe('LocalDate', () => {
+  it('validates dates against the calendar', () => {
+    assert.equal(LocalDate.of(2000, 2, 29).toString(), '2000-02-29');
+    assert.equal(LocalDate.fromString('2024-02-29').toJSON(), '2024-02-29');
+
+    for (const [year, month, day] of [
+      [2023, 2, 29],
+      [2100, 2, 29],
+      [2023, 4, 31],
+      [2023, 13, 1],
+      [2023, 1, 0],
+    ]) {
+      assert.throws(() => LocalDate.of(year, month, day), TOMLError, `${year}-${month}-${day}`);
+    }
+
+    assert.throws(() => LocalDate.fromString('2023-02-29'), /^TOMLError: invalid local date format "2023-02-29"/);
+  });
+
+  it('compares dates', () => {
+    const dates = ['2024-01-02', '2023-12-31', '2024-01-01'].map((text) => LocalDate.fromString(text));
+
+    assert.deepEqual(dates.sort((a, b) => a.compare(b)).map(String), ['2023-12-31', '2024-01-01', '2024-01-02']);
+    assert.ok(LocalDate.of(2024, 1, 1).equals(LocalDate.fromString('2024-01-01')));
+    assert.ok(!LocalDate.of(2024, 1, 1).equals(LocalDate.of(2024, 1, 2)));
+  });
+
+  it('converts from and to dates in time zones', () => {
+    const date = new Date('2024-01-01T05:00:00Z');
+
+    assert.equal(LocalDate.fromDate(date, 'UTC').toString(), '2024-01-01');
+    assert.equal(LocalDate.fromDate(date, 'America/Los_Angeles').toString(), '2023-12-31');
+    assert.equal(LocalDate.of(2024, 2, 29).toDate('America/New_York').toISOString(), '2024-02-29T05:00:00.000Z');
+    assert.deepEqual(LocalDate.of(2024, 2, 29).toDate(), new Date(2024, 1, 29));
+  });
+});
+
+describe('LocalTime', () => {
+  it('validates times and keeps fractions of seconds', () => {
+    assert.equal(LocalTime.of(1, 2).toString(), '01:02:00');
+    assert.equal(LocalTime.of(1, 2, 3, 4).toString(), '01:02:03.000000004');
+    assert.equal(LocalTime.fromString('07:32:00.5').toJSON(), '07:32:00.500');
+    assert.equal(LocalTime.fromString('07:32:00.5').millisecond, 500);
+
+    for (const args of [
+      [24, 0],
+      [0, 60],
+      [0, 0, 60],
+      [0, 0, 0, 1e9],
+    ]) {
+      assert.throws(() => LocalTime.of(...args), TOMLError, args.join());
+    }
+  });
+
+  it('compares times down to nanoseconds', () => {
+    const a = LocalTime.fromString('07:32:00.000000001');
+    const b = LocalTime.fromString('07:32:00');
+
+    assert.deepEqual([a.compare(b), b.compare(a), a.compare(a)], [1, -1, 0]);
+    assert.ok(b.equals(LocalTime.of(7, 32)));
+  });
+
+  it('converts from dates in time zones', () => {
+    assert.equal(LocalTime.fromDate(new Date('2024-01-01T00:00:00.5Z'), 'Asia/Tokyo').toString(), '09:00:00.500');
+  });
+});
+
+describe('LocalDateTime', () => {
+  it('validates date-times', () => {
+    assert.equal(LocalDateTime.of(2024, 2, 29, 7, 32).toString(), '2024-02-29T07:32:00');
+    assert.equal(LocalDateTime.fromString('1979-05-27 07:32:00.999999').toJSON(), '1979-05-27T07:32:00.999999');
+    assert.throws(() => LocalDateTime.of(2023, 2, 29, 7, 32), TOMLError);
+    assert.throws(() => LocalDateTime.fromString('1979-05-27'), TOMLError);
+  });
+
+  it('compares date-times', () => {
+    const a = LocalDateTime.fromString('1979-05-27T07:32:00');
+    const b = LocalDateTime.fromString('1979-05-26T23:59:59.999');
+
+    assert.deepEqual([a.compare(b), b.compare(a), a.compare(a)], [1, -1, 0]);
+    assert.ok(a.equals(LocalDateTime.of(1979, 5, 27, 7, 32)));
+  });
+
+  it('converts from and to dates in time zones', () => {
+    const value = LocalDateTime.fromString('1979-05-27T07:32:00.999999');
+
+    assert.equal(value.toDate('UTC').toISOString(), '1979-05-27T07:32:00.999Z');
+    assert.equal(value.toDate('America/Los_Angeles').toISOString(), '1979-05-27T14:32:00.999Z');
+    assert.equal(LocalDateTime.of(50, 1, 1, 0, 0).toDate('UTC').toISOString(), '0050-01-01T00:00:00.000Z');
+    assert.deepEqual(value.toDate(), new Date(1979, 4, 27, 7, 32, 0, 999));
+    assert.equal(
+      LocalDateTime.fromDate(new Date('2024-01-01T00:00:00.5Z'), 'Asia/Tokyo').toString(),
+      '2024-01-01T09:00:00.500',
+    );
+  });
+});